@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAIConfigError } from "@/lib/ai";
+import { answerQuestion } from "@/lib/questionAnswering";
+import { hasCachedTranscript } from "@/lib/summarize";
+import { appendToConversation, deleteConversation, readConversation } from "@/lib/chatStore";
+import { isValidVideoId } from "@/lib/youtubeUrl";
+
+export async function GET(request: NextRequest) {
+    const videoId = new URL(request.url).searchParams.get("videoId");
+    if (!isValidVideoId(videoId)) {
+        return NextResponse.json(
+            { error: "A valid videoId is required" },
+            { status: 400 },
+        );
+    }
+    return NextResponse.json({ messages: readConversation(videoId) });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { videoId, question } = await request.json();
+
+        if (!isValidVideoId(videoId)) {
+            return NextResponse.json(
+                { error: "A valid videoId is required" },
+                { status: 400 },
+            );
+        }
+        if (typeof question !== "string" || !question.trim()) {
+            return NextResponse.json(
+                { error: "question is required" },
+                { status: 400 },
+            );
+        }
+
+        if (!hasCachedTranscript(videoId)) {
+            return NextResponse.json(
+                { error: "This video has no transcript yet. Summarize it first." },
+                { status: 404 },
+            );
+        }
+
+        const configError = getAIConfigError("chat");
+        if (configError) {
+            return NextResponse.json(
+                { error: configError },
+                { status: 400 },
+            );
+        }
+
+        const askedAt = Date.now();
+        const answer = await answerQuestion(videoId, question.trim(), readConversation(videoId));
+        // Only answered questions are kept, so a failed call can be retried
+        const messages = appendToConversation(videoId, [
+            { role: "user", content: question.trim(), createdAt: askedAt },
+            { role: "assistant", content: answer, createdAt: Date.now() },
+        ]);
+        return NextResponse.json({ success: true, messages });
+    } catch (error) {
+        console.error("Error answering question:", error);
+        return NextResponse.json(
+            {
+                error:
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to answer question",
+            },
+            { status: 500 },
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    const videoId = new URL(request.url).searchParams.get("videoId");
+    if (!isValidVideoId(videoId)) {
+        return NextResponse.json(
+            { error: "A valid videoId is required" },
+            { status: 400 },
+        );
+    }
+    try {
+        deleteConversation(videoId);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Error clearing conversation:", error);
+        return NextResponse.json(
+            { error: "Failed to clear conversation" },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAIConfigError } from "@/lib/ai";
+import { generateFlashcards } from "@/lib/flashcardGenerator";
+import { hasCachedTranscript } from "@/lib/summarize";
+import { isValidVideoId } from "@/lib/youtubeUrl";
+
+export async function POST(request: NextRequest) {
+    try {
+        const { videoId } = await request.json();
+
+        if (!isValidVideoId(videoId)) {
+            return NextResponse.json(
+                { error: "A valid videoId is required" },
+                { status: 400 },
+            );
+        }
+
+        if (!hasCachedTranscript(videoId)) {
+            return NextResponse.json(
+                { error: "This video has no transcript yet. Summarize it first." },
+                { status: 404 },
+            );
+        }
+
+        const configError = getAIConfigError("chat");
+        if (configError) {
+            return NextResponse.json(
+                { error: configError },
+                { status: 400 },
+            );
+        }
+
+        const cards = await generateFlashcards(videoId);
+        return NextResponse.json({ cards });
+    } catch (error) {
+        console.error("Error generating flashcards:", error);
+        return NextResponse.json(
+            {
+                error:
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to generate flashcards",
+            },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelJob, readJob } from "@/lib/jobQueue";
+
+interface RouteContext {
+    params: Promise<{ jobId: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const { jobId } = await params;
+
+    const job = readJob(jobId);
+    if (!job) {
+        return NextResponse.json(
+            { error: "Job not found" },
+            { status: 404 },
+        );
+    }
+    return NextResponse.json({ job });
+}
+
+// Cancels the job; its record is kept so watchers see the final status
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const { jobId } = await params;
+
+    try {
+        const job = cancelJob(jobId);
+        if (!job) {
+            return NextResponse.json(
+                { error: "Job not found" },
+                { status: 404 },
+            );
+        }
+        return NextResponse.json({ success: true, job });
+    } catch (error) {
+        console.error("Error cancelling job:", error);
+        return NextResponse.json(
+            { error: "Failed to cancel job" },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueJob, listJobs } from "@/lib/jobQueue";
+import {
+    JOB_TYPES,
+    parseMediaOptions,
+    SUMMARY_MODES,
+    VIDEO_QUALITIES,
+    type JobType,
+} from "@/lib/jobs";
+import { templateExists } from "@/lib/templateStore";
+import { isValidVideoId } from "@/lib/youtubeUrl";
+
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get("videoId") || undefined;
+    const type = searchParams.get("type") || undefined;
+
+    if (type && !JOB_TYPES.includes(type as JobType)) {
+        return NextResponse.json(
+            { error: `type must be one of ${JOB_TYPES.join(", ")}` },
+            { status: 400 },
+        );
+    }
+
+    const jobs = listJobs({
+        videoId,
+        type: type as JobType | undefined,
+        active: searchParams.get("active") === "1",
+    });
+    return NextResponse.json({ jobs });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const {
+            type,
+            videoId,
+            quality,
+            audioOnly,
+            templateId = null,
+            mode = "overview",
+        } = await request.json();
+
+        if (!JOB_TYPES.includes(type)) {
+            return NextResponse.json(
+                { error: `type must be one of ${JOB_TYPES.join(", ")}` },
+                { status: 400 },
+            );
+        }
+        if (!videoId || !isValidVideoId(videoId)) {
+            return NextResponse.json(
+                { error: "A valid videoId is required" },
+                { status: 400 },
+            );
+        }
+
+        const options = parseMediaOptions({ quality, audioOnly });
+        if (!options) {
+            return NextResponse.json(
+                { error: `quality must be one of ${VIDEO_QUALITIES.join(", ")}` },
+                { status: 400 },
+            );
+        }
+
+        if (templateId !== null && !templateExists(templateId)) {
+            return NextResponse.json(
+                { error: "Unknown prompt template" },
+                { status: 400 },
+            );
+        }
+
+        if (!SUMMARY_MODES.includes(mode)) {
+            return NextResponse.json(
+                { error: `mode must be one of ${SUMMARY_MODES.join(", ")}` },
+                { status: 400 },
+            );
+        }
+
+        const job = enqueueJob(type, videoId, options, { templateId, mode });
+        return NextResponse.json({ success: true, job });
+    } catch (error) {
+        console.error("Error enqueueing job:", error);
+        return NextResponse.json(
+            { error: "Failed to enqueue job" },
+            { status: 500 },
+        );
+    }
+}
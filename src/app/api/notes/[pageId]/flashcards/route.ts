@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { collectBlocks, readNote } from "@/lib/notesStore";
+import { toAnkiTsv, type Flashcard } from "@/lib/flashcards";
+
+interface RouteContext {
+    params: Promise<{ pageId: string }>;
+}
+
+// The page's flashcard blocks as an Anki import file
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const { pageId } = await params;
+
+    const note = readNote(pageId);
+    if (!note) {
+        return NextResponse.json(
+            { error: "Page not found" },
+            { status: 404 },
+        );
+    }
+
+    const cards: Flashcard[] = collectBlocks(note.blocks, "flashcard")
+        .map((block) => ({
+            front: block.props?.front || "",
+            back: block.props?.back || "",
+            videoId: block.props?.videoId || "",
+            time: Number(block.props?.time) || 0,
+        }))
+        .filter((card) => card.front && card.back);
+
+    if (cards.length === 0) {
+        return NextResponse.json(
+            { error: "This page has no flashcards" },
+            { status: 404 },
+        );
+    }
+
+    // Keep the file name to characters every OS accepts
+    const fileName = `${note.title.replace(/[^A-Za-z0-9 _-]+/g, "").trim() || "flashcards"}.tsv`;
+    return new Response(toAnkiTsv(cards), {
+        headers: {
+            "Content-Type": "text/tab-separated-values; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+    });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteNote, readNote, toPage, updateNote } from "@/lib/notesStore";
+
+interface RouteContext {
+    params: Promise<{ pageId: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const { pageId } = await params;
+
+    try {
+        const note = readNote(pageId);
+        if (!note) {
+            return NextResponse.json(
+                { error: "Page not found" },
+                { status: 404 },
+            );
+        }
+        return NextResponse.json({ page: toPage(note), blocks: note.blocks });
+    } catch (error) {
+        console.error("Error loading page:", error);
+        return NextResponse.json(
+            { error: "Failed to load page" },
+            { status: 500 },
+        );
+    }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    const { pageId } = await params;
+
+    try {
+        const { title, parentId, blocks, baseRevision } = await request.json();
+        const result = updateNote(pageId, { title, parentId, blocks, baseRevision });
+
+        switch (result.status) {
+            case "not-found":
+                return NextResponse.json(
+                    { error: "Page not found" },
+                    { status: 404 },
+                );
+            case "invalid-parent":
+                return NextResponse.json(
+                    { error: "A page cannot be moved inside itself" },
+                    { status: 400 },
+                );
+            case "conflict":
+                return NextResponse.json(
+                    {
+                        error: "Page was changed elsewhere",
+                        page: toPage(result.note),
+                        blocks: result.note.blocks,
+                    },
+                    { status: 409 },
+                );
+            case "ok":
+                return NextResponse.json({ success: true, page: toPage(result.note) });
+        }
+    } catch (error) {
+        console.error("Error updating page:", error);
+        return NextResponse.json(
+            { error: "Failed to update page" },
+            { status: 500 },
+        );
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+    const { pageId } = await params;
+
+    try {
+        const deleted = deleteNote(pageId);
+        return NextResponse.json({ success: true, deleted });
+    } catch (error) {
+        console.error("Error deleting page:", error);
+        return NextResponse.json(
+            { error: "Failed to delete page" },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createNote, listPages, readNote, toPage } from "@/lib/notesStore";
+
+export async function GET() {
+    return NextResponse.json({ pages: listPages() });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { id, title, parentId, blocks, createdAt, updatedAt } = await request.json();
+
+        // Creating never replaces a page; edits go through PUT with a revision
+        if (id && readNote(id)) {
+            return NextResponse.json(
+                { error: "A page with this id already exists" },
+                { status: 409 },
+            );
+        }
+
+        const note = createNote({
+            id,
+            title: title || "Untitled",
+            parentId: parentId || null,
+            blocks,
+            createdAt,
+            updatedAt,
+        });
+        return NextResponse.json({ success: true, page: toPage(note) });
+    } catch (error) {
+        console.error("Error creating page:", error);
+        return NextResponse.json(
+            { error: "Failed to create page" },
+            { status: 500 },
+        );
+    }
+}
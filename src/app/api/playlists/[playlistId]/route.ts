@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPlaylistProgress } from "@/lib/playlistStore";
+
+interface RouteContext {
+    params: Promise<{ playlistId: string }>;
+}
+
+// The imported playlist with the current state of its jobs
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const { playlistId } = await params;
+
+    const progress = getPlaylistProgress(playlistId);
+    if (!progress) {
+        return NextResponse.json(
+            { error: "Playlist not imported" },
+            { status: 404 },
+        );
+    }
+    return NextResponse.json(progress);
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseMediaOptions, SUMMARY_MODES, VIDEO_QUALITIES } from "@/lib/jobs";
+import { importPlaylist } from "@/lib/playlistStore";
+import { templateExists } from "@/lib/templateStore";
+import { getYouTubePlaylistId } from "@/lib/youtubeUrl";
+
+export async function POST(request: NextRequest) {
+    try {
+        const {
+            url,
+            quality,
+            audioOnly,
+            summarize = false,
+            templateId = null,
+            mode = "overview",
+        } = await request.json();
+
+        const playlistId = typeof url === "string" ? getYouTubePlaylistId(url) : null;
+        if (!playlistId) {
+            return NextResponse.json(
+                { error: "A YouTube playlist URL is required" },
+                { status: 400 },
+            );
+        }
+
+        const options = parseMediaOptions({ quality, audioOnly });
+        if (!options) {
+            return NextResponse.json(
+                { error: `quality must be one of ${VIDEO_QUALITIES.join(", ")}` },
+                { status: 400 },
+            );
+        }
+
+        if (templateId !== null && !templateExists(templateId)) {
+            return NextResponse.json(
+                { error: "Unknown prompt template" },
+                { status: 400 },
+            );
+        }
+
+        if (!SUMMARY_MODES.includes(mode)) {
+            return NextResponse.json(
+                { error: `mode must be one of ${SUMMARY_MODES.join(", ")}` },
+                { status: 400 },
+            );
+        }
+
+        const result = await importPlaylist(
+            playlistId,
+            options,
+            summarize === true ? { templateId, mode } : null
+        );
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error("Error importing playlist:", error);
+        return NextResponse.json(
+            {
+                error:
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to import playlist",
+            },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { countDueCards, listReviewCards, recordReview } from "@/lib/reviewStore";
+import { REVIEW_GRADES } from "@/lib/spacedRepetition";
+
+// All flashcards with their review state, or just how many are due with ?count=1
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get("count") === "1") {
+        return NextResponse.json({ dueCount: countDueCards() });
+    }
+    return NextResponse.json({ cards: listReviewCards() });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { cardId, grade } = await request.json();
+
+        if (!REVIEW_GRADES.includes(grade)) {
+            return NextResponse.json(
+                { error: `grade must be one of ${REVIEW_GRADES.join(", ")}` },
+                { status: 400 },
+            );
+        }
+
+        const state = typeof cardId === "string" ? recordReview(cardId, grade) : null;
+        if (!state) {
+            return NextResponse.json(
+                { error: "Flashcard not found" },
+                { status: 404 },
+            );
+        }
+        return NextResponse.json({ success: true, state, dueCount: countDueCards() });
+    } catch (error) {
+        console.error("Error recording review:", error);
+        return NextResponse.json(
+            { error: "Failed to record review" },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readSettings, writeSettings } from "@/lib/settingsStore";
+
+export async function GET() {
+    return NextResponse.json({ settings: readSettings() });
+}
+
+export async function PUT(request: NextRequest) {
+    try {
+        const { settings } = await request.json();
+        return NextResponse.json({ success: true, settings: writeSettings(settings) });
+    } catch (error) {
+        console.error("Error saving settings:", error);
+        return NextResponse.json(
+            { error: "Failed to save settings" },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,254 @@
+import { NextRequest, NextResponse } from "next/server";
+import path from "path";
+import fs from "fs";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { writeJsonAtomic } from "@/lib/jsonFile";
+import { collectBlocks, listNotes } from "@/lib/notesStore";
+import { isValidVideoId } from "@/lib/youtubeUrl";
+
+const execAsync = promisify(exec);
+
+const SNAPSHOTS_DIR = path.join(process.cwd(), "public", "snapshots");
+
+type SnapshotFormat = "jpeg" | "webp" | "png";
+
+const FORMAT_EXTENSIONS: Record<SnapshotFormat, string> = {
+    jpeg: "jpg",
+    webp: "webp",
+    png: "png",
+};
+
+const DEFAULT_FORMAT: SnapshotFormat = "jpeg";
+const DEFAULT_QUALITY = 85;
+
+interface SnapshotRecord {
+    id: string;
+    videoId: string;
+    // Seconds into the video
+    timestamp: number;
+    url: string;
+    format: SnapshotFormat;
+    width: number | null;
+    height: number | null;
+    size: number;
+    createdAt: number;
+}
+
+function getVideoSnapshotsDir(videoId: string): string {
+    return path.join(SNAPSHOTS_DIR, videoId);
+}
+
+function getIndexPath(videoId: string): string {
+    return path.join(getVideoSnapshotsDir(videoId), "index.json");
+}
+
+function readIndex(videoId: string): SnapshotRecord[] {
+    const indexPath = getIndexPath(videoId);
+    if (!fs.existsSync(indexPath)) {
+        return [];
+    }
+    try {
+        return JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+    } catch {
+        return [];
+    }
+}
+
+function writeIndex(videoId: string, snapshots: SnapshotRecord[]) {
+    const indexPath = getIndexPath(videoId);
+    writeJsonAtomic(indexPath, snapshots);
+}
+
+// Index updates for a video run one after another, chained per videoId, so
+// concurrent saves and deletes never drop each other's entries. Kept on
+// globalThis since dev reloads re-evaluate this module.
+const globalForSnapshots = globalThis as typeof globalThis & {
+    vnotesSnapshotIndexUpdates?: Map<string, Promise<unknown>>;
+};
+const indexUpdates = (globalForSnapshots.vnotesSnapshotIndexUpdates ??= new Map());
+
+function updateIndex<T>(
+    videoId: string,
+    update: (snapshots: SnapshotRecord[]) => { snapshots: SnapshotRecord[]; result: T }
+): Promise<T> {
+    const previous = indexUpdates.get(videoId) ?? Promise.resolve();
+    const next = previous.then(() => {
+        const { snapshots, result } = update(readIndex(videoId));
+        writeIndex(videoId, snapshots);
+        return result;
+    });
+    const settled = next.catch(() => {});
+    indexUpdates.set(videoId, settled);
+    settled.then(() => {
+        if (indexUpdates.get(videoId) === settled) {
+            indexUpdates.delete(videoId);
+        }
+    });
+    return next;
+}
+
+// Whether an image block on any page still shows this snapshot
+function isSnapshotInUse(url: string): boolean {
+    return listNotes().some((note) =>
+        collectBlocks(note.blocks, "image").some((block) => block.props?.url === url)
+    );
+}
+
+// Re-encode the uploaded frame with ffmpeg at the requested quality (1-100)
+async function encodeSnapshot(
+    inputPath: string,
+    outputPath: string,
+    format: SnapshotFormat,
+    quality: number
+): Promise<void> {
+    if (format === "png") {
+        fs.copyFileSync(inputPath, outputPath);
+        return;
+    }
+
+    const options =
+        format === "jpeg"
+            ? // mjpeg's qscale runs from 2 (best) to 31 (worst)
+              `-q:v ${Math.round(31 - (quality / 100) * 29)}`
+            : `-c:v libwebp -quality ${quality}`;
+    await execAsync(`ffmpeg -i "${inputPath}" ${options} -y "${outputPath}"`);
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const formData = await request.formData();
+        const videoId = String(formData.get("videoId") || "");
+        const timestamp = parseFloat(String(formData.get("timestamp") || ""));
+        const image = formData.get("image");
+        const format = (String(formData.get("format") || DEFAULT_FORMAT)) as SnapshotFormat;
+        const quality = Math.min(
+            100,
+            Math.max(1, parseInt(String(formData.get("quality") || DEFAULT_QUALITY), 10) || DEFAULT_QUALITY)
+        );
+
+        if (!videoId || !isValidVideoId(videoId)) {
+            return NextResponse.json(
+                { error: "A valid videoId is required" },
+                { status: 400 },
+            );
+        }
+        if (!(image instanceof Blob) || isNaN(timestamp)) {
+            return NextResponse.json(
+                { error: "image and timestamp are required" },
+                { status: 400 },
+            );
+        }
+        if (!Object.hasOwn(FORMAT_EXTENSIONS, format)) {
+            return NextResponse.json(
+                { error: "format must be jpeg, webp or png" },
+                { status: 400 },
+            );
+        }
+
+        const dir = getVideoSnapshotsDir(videoId);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        const id = crypto.randomUUID();
+        const fileName = `${id}.${FORMAT_EXTENSIONS[format]}`;
+        const uploadPath = path.join(dir, `${id}.upload`);
+        const outputPath = path.join(dir, fileName);
+
+        fs.writeFileSync(uploadPath, Buffer.from(await image.arrayBuffer()));
+        try {
+            await encodeSnapshot(uploadPath, outputPath, format, quality);
+        } finally {
+            fs.unlinkSync(uploadPath);
+        }
+
+        const width = parseInt(String(formData.get("width") || ""), 10);
+        const height = parseInt(String(formData.get("height") || ""), 10);
+        const snapshot: SnapshotRecord = {
+            id,
+            videoId,
+            timestamp,
+            url: `/snapshots/${videoId}/${fileName}`,
+            format,
+            width: isNaN(width) ? null : width,
+            height: isNaN(height) ? null : height,
+            size: fs.statSync(outputPath).size,
+            createdAt: Date.now(),
+        };
+
+        await updateIndex(videoId, (snapshots) => ({
+            snapshots: [...snapshots, snapshot].sort((a, b) => a.timestamp - b.timestamp),
+            result: undefined,
+        }));
+
+        return NextResponse.json({ success: true, snapshot });
+    } catch (error) {
+        console.error("Error saving snapshot:", error);
+        return NextResponse.json(
+            {
+                error:
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to save snapshot",
+            },
+            { status: 500 },
+        );
+    }
+}
+
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get("videoId");
+
+    if (!videoId || !isValidVideoId(videoId)) {
+        return NextResponse.json(
+            { error: "A valid videoId is required" },
+            { status: 400 },
+        );
+    }
+
+    return NextResponse.json({ snapshots: readIndex(videoId) });
+}
+
+export async function DELETE(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get("videoId");
+    const id = searchParams.get("id");
+
+    if (!videoId || !isValidVideoId(videoId) || !id) {
+        return NextResponse.json(
+            { error: "videoId and id are required" },
+            { status: 400 },
+        );
+    }
+
+    try {
+        const snapshot = await updateIndex(videoId, (snapshots) => ({
+            snapshots: snapshots.filter((s) => s.id !== id),
+            result: snapshots.find((s) => s.id === id),
+        }));
+        if (!snapshot) {
+            return NextResponse.json(
+                { error: "Snapshot not found" },
+                { status: 404 },
+            );
+        }
+
+        // Pages that inserted the snapshot keep showing it; only the index
+        // entry goes until no image block points at the file
+        const keptFile = isSnapshotInUse(snapshot.url);
+        const filePath = path.join(getVideoSnapshotsDir(videoId), path.basename(snapshot.url));
+        if (!keptFile && fs.existsSync(filePath)) {
+            fs.unlinkSync(filePath);
+        }
+
+        return NextResponse.json({ success: true, keptFile });
+    } catch (error) {
+        console.error("Error deleting snapshot:", error);
+        return NextResponse.json(
+            { error: "Failed to delete snapshot" },
+            { status: 500 },
+        );
+    }
+}
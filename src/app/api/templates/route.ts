@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readTemplates, writeUserTemplates } from "@/lib/templateStore";
+
+export async function GET() {
+    return NextResponse.json({ templates: readTemplates() });
+}
+
+// Replace the user-defined templates
+export async function PUT(request: NextRequest) {
+    try {
+        const { templates } = await request.json();
+        if (!Array.isArray(templates)) {
+            return NextResponse.json(
+                { error: "templates must be an array" },
+                { status: 400 },
+            );
+        }
+        return NextResponse.json({ success: true, templates: writeUserTemplates(templates) });
+    } catch (error) {
+        console.error("Error saving templates:", error);
+        return NextResponse.json(
+            { error: "Failed to save templates" },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import path from "path";
+import fs from "fs";
+import { readVideoMetadata } from "@/lib/metadataStore";
+import { findPagesEmbeddingVideos } from "@/lib/notesStore";
+
+const VIDEOS_DIR = path.join(process.cwd(), "public", "videos");
+const TRANSCRIPTS_DIR = path.join(process.cwd(), "public", "transcripts");
+const SUMMARIES_DIR = path.join(process.cwd(), "public", "summaries");
+
+const DEFAULT_LIMIT = 5;
+
+interface ProcessedVideo {
+    videoId: string;
+    // From the cached metadata: the YouTube title, or an uploaded file's name
+    title: string | null;
+    videoPath: string;
+    // Only the audio track was downloaded
+    audioOnly: boolean;
+    downloaded: boolean;
+    transcribed: boolean;
+    summarized: boolean;
+    // Most recent time any stage finished, in ms since epoch
+    lastProcessedAt: number;
+    // Pages whose video blocks embed this video
+    pages: { id: string; title: string }[];
+}
+
+function getMtime(filePath: string): number | null {
+    return fs.existsSync(filePath) ? fs.statSync(filePath).mtimeMs : null;
+}
+
+function describeVideo(videoId: string): Omit<ProcessedVideo, "pages"> {
+    const videoAt = getMtime(path.join(VIDEOS_DIR, `${videoId}.mp4`));
+    const audioAt = getMtime(path.join(VIDEOS_DIR, `${videoId}.m4a`));
+    const downloadedAt = videoAt ?? audioAt;
+    const transcribedAt = getMtime(path.join(TRANSCRIPTS_DIR, `${videoId}.json`));
+    const summarizedAt = getMtime(path.join(SUMMARIES_DIR, `${videoId}.json`));
+
+    return {
+        videoId,
+        title: readVideoMetadata(videoId)?.title || null,
+        videoPath: `/videos/${videoId}.${videoAt === null ? "m4a" : "mp4"}`,
+        audioOnly: videoAt === null,
+        downloaded: downloadedAt !== null,
+        transcribed: transcribedAt !== null,
+        summarized: summarizedAt !== null,
+        lastProcessedAt: Math.max(downloadedAt || 0, transcribedAt || 0, summarizedAt || 0),
+    };
+}
+
+// GET endpoint listing downloaded videos, most recently processed first
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "", 10) || DEFAULT_LIMIT;
+
+    if (!fs.existsSync(VIDEOS_DIR)) {
+        return NextResponse.json({ videos: [] });
+    }
+
+    // Audio-only downloads sit next to the videos as .m4a
+    const videoIds = new Set(
+        fs
+            .readdirSync(VIDEOS_DIR)
+            .filter((file) => file.endsWith(".mp4") || file.endsWith(".m4a"))
+            .map((file) => path.basename(file, path.extname(file)))
+    );
+
+    const videos = [...videoIds]
+        .map((videoId) => describeVideo(videoId))
+        .sort((a, b) => b.lastProcessedAt - a.lastProcessedAt)
+        .slice(0, limit);
+
+    const videoPages = findPagesEmbeddingVideos(videos.map((video) => video.videoId));
+
+    return NextResponse.json({
+        videos: videos.map((video): ProcessedVideo => ({
+            ...video,
+            pages: videoPages[video.videoId].map(({ id, title }) => ({ id, title })),
+        })),
+    });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { importLocalVideo } from "@/lib/localVideoStore";
+import { isSupportedVideoFile, LOCAL_VIDEO_EXTENSIONS } from "@/lib/localVideos";
+
+// Upload a video file from disk. The request body is the raw file, so large
+// recordings can be streamed; its name comes in the query string.
+export async function POST(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const name = searchParams.get("name") || "";
+
+        if (!isSupportedVideoFile(name)) {
+            return NextResponse.json(
+                { error: `Only ${LOCAL_VIDEO_EXTENSIONS.join(", ")} files are supported` },
+                { status: 400 },
+            );
+        }
+        if (!request.body) {
+            return NextResponse.json(
+                { error: "The video file is required" },
+                { status: 400 },
+            );
+        }
+
+        const { videoId, videoPath } = await importLocalVideo(request.body, name);
+
+        return NextResponse.json({
+            success: true,
+            videoId,
+            videoPath,
+        });
+    } catch (error) {
+        console.error("Error uploading video:", error);
+        return NextResponse.json(
+            {
+                error:
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to upload video",
+            },
+            { status: 500 },
+        );
+    }
+}
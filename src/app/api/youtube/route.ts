@@ -1,29 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import path from "path";
-import fs from "fs";
-import Innertube from "youtubei.js";
-
-const VIDEOS_DIR = path.join(process.cwd(), "public", "videos");
-
-// Ensure videos directory exists
-if (!fs.existsSync(VIDEOS_DIR)) {
-    fs.mkdirSync(VIDEOS_DIR, { recursive: true });
-}
-
-function getYouTubeVideoId(url: string): string | null {
-    const patterns = [
-        /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&?\s]+)/,
-    ];
-    for (const pattern of patterns) {
-        const match = url.match(pattern);
-        if (match) return match[1];
-    }
-    return null;
-}
+import { findDownloadedMedia } from "@/lib/download";
+import { enqueueJob } from "@/lib/jobQueue";
+import { parseMediaOptions, VIDEO_QUALITIES } from "@/lib/jobs";
+import { getVideoMetadata, readVideoMetadata } from "@/lib/metadataStore";
+import { getYouTubeVideoId } from "@/lib/youtubeUrl";
 
 export async function POST(request: NextRequest) {
     try {
-        const { url } = await request.json();
+        const { url, quality, audioOnly } = await request.json();
 
         if (!url) {
             return NextResponse.json(
@@ -40,52 +24,38 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const outputPath = path.join(VIDEOS_DIR, `${videoId}.mp4`);
+        const options = parseMediaOptions({ quality, audioOnly });
+        if (!options) {
+            return NextResponse.json(
+                { error: `quality must be one of ${VIDEO_QUALITIES.join(", ")}` },
+                { status: 400 },
+            );
+        }
 
-        // Check if video already exists
-        if (fs.existsSync(outputPath)) {
+        // Downloads go through the job queue, so this never races a queued
+        // download of the same video; poll the returned job for progress
+        const videoPath = findDownloadedMedia(videoId, options.audioOnly);
+        if (!videoPath) {
+            const job = enqueueJob("download", videoId, options);
             return NextResponse.json({
                 success: true,
                 videoId,
-                videoPath: `/videos/${videoId}.mp4`,
+                videoPath: null,
+                job,
             });
         }
 
-        // Initialize YouTube.js
-        const yt = await Innertube.create();
-
-        // Use the built-in download method - try ANDROID client which has progressive formats
-        const stream = await yt.download(videoId, {
-            type: "video+audio",
-            quality: "best",
-            client: "ANDROID",
+        // This covers media downloaded before metadata was kept
+        const metadata = await getVideoMetadata(videoId).catch((error) => {
+            console.warn(`Could not fetch metadata for ${videoId}:`, error);
+            return null;
         });
 
-        // Collect chunks from the stream
-        const chunks: Uint8Array[] = [];
-        const reader = stream.getReader();
-
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            chunks.push(value);
-        }
-
-        // Combine chunks and write to file
-        const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-        const buffer = new Uint8Array(totalLength);
-        let offset = 0;
-        for (const chunk of chunks) {
-            buffer.set(chunk, offset);
-            offset += chunk.length;
-        }
-
-        fs.writeFileSync(outputPath, Buffer.from(buffer));
-
         return NextResponse.json({
             success: true,
             videoId,
-            videoPath: `/videos/${videoId}.mp4`,
+            videoPath,
+            metadata,
         });
     } catch (error) {
         console.error("Error downloading video:", error);
@@ -112,14 +82,15 @@ export async function GET(request: NextRequest) {
         );
     }
 
-    const videoPath = path.join(VIDEOS_DIR, `${videoId}.mp4`);
-
-    if (fs.existsSync(videoPath)) {
+    const videoPath = findDownloadedMedia(videoId, searchParams.get("audioOnly") === "1");
+    const metadata = readVideoMetadata(videoId);
+    if (videoPath) {
         return NextResponse.json({
             exists: true,
-            videoPath: `/videos/${videoId}.mp4`,
+            videoPath,
+            metadata,
         });
     }
 
-    return NextResponse.json({ exists: false });
+    return NextResponse.json({ exists: false, metadata });
 }
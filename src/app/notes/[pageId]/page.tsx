@@ -0,0 +1,16 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import { useParams } from "next/navigation";
+
+const PageView = dynamic(() => import("@/components/PageView"), { ssr: false });
+
+export default function NotePage() {
+    const { pageId } = useParams<{ pageId: string }>();
+
+    return (
+        <div>
+            <PageView key={pageId} pageId={pageId} />
+        </div>
+    );
+}
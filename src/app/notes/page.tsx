@@ -1,13 +1,36 @@
 "use client";
 
-import dynamic from "next/dynamic";
-
-const Editor = dynamic(() => import("@/components/Editor"), { ssr: false });
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { createPage, loadPages } from "@/lib/pages";
 
+// Open the most recently edited page, creating one if the workspace is empty
 export default function NotesPage() {
-    return (
-        <div>
-            <Editor />
-        </div>
-    );
+    const router = useRouter();
+
+    useEffect(() => {
+        let cancelled = false;
+
+        async function openLatestPage() {
+            const pages = await loadPages();
+            // A cleaned-up run (e.g. StrictMode's first) must not create a page too
+            if (cancelled) return;
+            const latest = pages.reduce<(typeof pages)[number] | null>(
+                (acc, page) => (!acc || page.updatedAt > acc.updatedAt ? page : acc),
+                null
+            );
+            const page = latest || (await createPage());
+            if (!cancelled) {
+                router.replace(`/notes/${page.id}`);
+            }
+        }
+
+        openLatestPage().catch((e) => console.error("Failed to open notes:", e));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [router]);
+
+    return null;
 }
@@ -1,3 +1,9 @@
+"use client";
+
+import dynamic from "next/dynamic";
+
+const HomeDashboard = dynamic(() => import("@/components/HomeDashboard"), { ssr: false });
+
 export default function Home() {
-  return null;
+  return <HomeDashboard />;
 }
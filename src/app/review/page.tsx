@@ -0,0 +1,9 @@
+"use client";
+
+import dynamic from "next/dynamic";
+
+const ReviewView = dynamic(() => import("@/components/ReviewView"), { ssr: false });
+
+export default function ReviewPage() {
+  return <ReviewView />;
+}
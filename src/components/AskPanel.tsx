@@ -0,0 +1,188 @@
+"use client";
+
+import { RefObject, useEffect, useRef, useState } from "react";
+import styles from "./AskPanel.module.css";
+import { formatTime } from "@/lib/time";
+import { askVideo, clearConversation, fetchConversation, type ChatMessage } from "@/lib/ask";
+import { parseMarkdownToBlocks, type InlineContent, type MarkdownBlock } from "@/lib/markdownBlocks";
+
+interface AskPanelProps {
+  videoId: string;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  // Adds an answer to the note below the player
+  onInsert: (message: ChatMessage, question: string | null) => void;
+}
+
+export default function AskPanel({ videoId, videoRef, onInsert }: AskPanelProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchConversation(videoId)
+      .then((loaded) => {
+        if (!cancelled) setMessages(loaded);
+      })
+      .catch((err) => console.error("Failed to load conversation:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId]);
+
+  // Keep the latest answer in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [messages, isAsking]);
+
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    if (video) {
+      video.currentTime = time;
+      video.play().catch(() => {});
+    }
+  };
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const asked = question.trim();
+    if (!asked || isAsking) return;
+
+    setIsAsking(true);
+    setError(null);
+    try {
+      setMessages(await askVideo(videoId, asked));
+      setQuestion("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to answer question");
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm("Clear this conversation?")) return;
+    try {
+      await clearConversation(videoId);
+      setMessages([]);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to clear conversation:", err);
+      alert("Failed to clear conversation");
+    }
+  };
+
+  // Cited timestamps become seek buttons
+  const renderInline = (content: InlineContent[]) =>
+    content.map((item, index) => {
+      if (item.type === "videoTimestamp") {
+        return (
+          <button key={index} className={styles.citation} onClick={() => seekTo(item.props.time)}>
+            {formatTime(item.props.time)}
+          </button>
+        );
+      }
+      if (item.styles.bold) return <strong key={index}>{item.text}</strong>;
+      if (item.styles.italic) return <em key={index}>{item.text}</em>;
+      return item.text;
+    });
+
+  // Answers are markdown, parsed the way they are when inserted into the note;
+  // consecutive list items are grouped into one list
+  const renderAnswer = (content: string) => {
+    const groups: MarkdownBlock[][] = [];
+    for (const block of parseMarkdownToBlocks(content, videoId)) {
+      const last = groups[groups.length - 1];
+      if (last && block.type !== "paragraph" && block.type !== "heading" && last[0].type === block.type) {
+        last.push(block);
+      } else {
+        groups.push([block]);
+      }
+    }
+
+    return groups.map((group, index) => {
+      const [first] = group;
+      if (first.type === "heading") {
+        return <p key={index} className={styles.heading}>{renderInline(first.content)}</p>;
+      }
+      if (first.type === "paragraph") {
+        return <p key={index}>{renderInline(first.content)}</p>;
+      }
+      const List = first.type === "numberedListItem" ? "ol" : "ul";
+      return (
+        <List key={index} className={styles.list}>
+          {group.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item.content)}</li>
+          ))}
+        </List>
+      );
+    });
+  };
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.header}>
+        <span>Ask this video</span>
+        {messages.length > 0 && (
+          <button className={styles.clearButton} onClick={handleClear} disabled={isAsking}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className={styles.messages}>
+        {isLoading && <p className={styles.hint}>Loading conversation...</p>}
+        {!isLoading && messages.length === 0 && (
+          <p className={styles.hint}>
+            Ask about anything said or shown in the video. Answers cite the moments they come from.
+          </p>
+        )}
+        {messages.map((message, index) => (
+          <div key={index} className={`${styles.message} ${styles[message.role]}`}>
+            <div className={styles.content}>
+              {message.role === "assistant" ? renderAnswer(message.content) : message.content}
+            </div>
+            {message.role === "assistant" && (
+              <button
+                className={styles.insertButton}
+                onClick={() => {
+                  const asked = messages[index - 1];
+                  onInsert(message, asked?.role === "user" ? asked.content : null);
+                }}
+              >
+                Insert into note
+              </button>
+            )}
+          </div>
+        ))}
+        {isAsking && <p className={styles.hint}>Thinking...</p>}
+      </div>
+
+      {error && <p className={styles.error}>{error}</p>}
+
+      <form className={styles.form} onSubmit={handleAsk}>
+        <input
+          className={styles.input}
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question..."
+          disabled={isAsking}
+        />
+        <button type="submit" className={styles.askButton} disabled={isAsking || !question.trim()}>
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+}
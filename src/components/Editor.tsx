@@ -1,5 +1,5 @@
 "use client"
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useImperativeHandle, type Ref } from "react";
 import {
     createReactBlockSpec,
     useCreateBlockNote,
@@ -9,142 +9,61 @@ import {
 } from "@blocknote/react";
 import { BlockNoteView } from "@blocknote/mantine";
 import { BlockNoteSchema } from "@blocknote/core";
-import { defaultBlockSpecs } from "@blocknote/core/blocks";
+import { defaultBlockSpecs, defaultInlineContentSpecs } from "@blocknote/core/blocks";
 import { filterSuggestionItems } from "@blocknote/core/extensions";
 import "@blocknote/mantine/style.css";
 import "@blocknote/core/fonts/inter.css";
+import TranscriptPanel from "./TranscriptPanel";
+import AskPanel from "./AskPanel";
+import SummarizeProgress from "./SummarizeProgress";
+import { VideoTimestamp } from "./VideoTimestamp";
+import { FlashcardBlock } from "./FlashcardBlock";
+import { formatTime } from "@/lib/time";
+import { readJson } from "@/lib/apiClient";
+import { getVideoPlayer, registerVideoPlayer } from "@/lib/videoPlayers";
+import { loadPageContent, savePageBlocks, type Blocks, type Page } from "@/lib/pages";
+import {
+    cancelJob,
+    DEFAULT_MEDIA_OPTIONS,
+    enqueueJob,
+    fetchJob,
+    fetchJobs,
+    VIDEO_QUALITIES,
+    watchJob,
+    type DownloadResult,
+    type Job,
+    type MediaOptions,
+    type SummaryMode,
+    type VideoQuality,
+} from "@/lib/jobs";
+import type { SummarizeResult } from "@/lib/summarizeProgress";
+import { DEFAULT_TEMPLATE_ID, fetchTemplates, type PromptTemplate } from "@/lib/templates";
+import type { VideoMetadata } from "@/lib/videoMetadata";
+import {
+    isLocalVideoId,
+    isSupportedVideoFile,
+    LOCAL_VIDEO_EXTENSIONS,
+    uploadLocalVideo,
+} from "@/lib/localVideos";
+import { getYouTubeVideoId, parseYouTubeUrl } from "@/lib/youtubeUrl";
+import { generateFlashcards, hasCompleteFlashcard } from "@/lib/flashcards";
+import { parseMarkdownToBlocks } from "@/lib/markdownBlocks";
+import type { ChatMessage } from "@/lib/ask";
 
 interface Snapshot {
+    id: string;
     timestamp: number;
-    imageDataUrl: string;
-}
-
-function getYouTubeVideoId(url: string): string | null {
-    const patterns = [
-        /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&?\s]+)/,
-    ];
-    for (const pattern of patterns) {
-        const match = url.match(pattern);
-        if (match) return match[1];
-    }
-    return null;
-}
-
-function formatTime(seconds: number): string {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
-}
-
-// Parse inline markdown (bold, italic) into BlockNote styled text
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function parseInlineMarkdown(text: string): any[] {
-    const result: { type: "text"; text: string; styles: Record<string, boolean> }[] = [];
-    let remaining = text;
-
-    while (remaining.length > 0) {
-        // Match **bold** or __bold__
-        const boldMatch = remaining.match(/^(\*\*|__)(.+?)\1/);
-        if (boldMatch) {
-            result.push({ type: "text", text: boldMatch[2], styles: { bold: true } });
-            remaining = remaining.slice(boldMatch[0].length);
-            continue;
-        }
-
-        // Match *italic* or _italic_
-        const italicMatch = remaining.match(/^(\*|_)(.+?)\1/);
-        if (italicMatch) {
-            result.push({ type: "text", text: italicMatch[2], styles: { italic: true } });
-            remaining = remaining.slice(italicMatch[0].length);
-            continue;
-        }
-
-        // Find next special character
-        const nextSpecial = remaining.search(/[\*_]/);
-        if (nextSpecial === -1) {
-            // No more special characters
-            result.push({ type: "text", text: remaining, styles: {} });
-            break;
-        } else if (nextSpecial === 0) {
-            // Special char at start but didn't match pattern, treat as text
-            result.push({ type: "text", text: remaining[0], styles: {} });
-            remaining = remaining.slice(1);
-        } else {
-            // Add plain text before special char
-            result.push({ type: "text", text: remaining.slice(0, nextSpecial), styles: {} });
-            remaining = remaining.slice(nextSpecial);
-        }
-    }
-
-    return result;
-}
-
-// Parse markdown text into BlockNote block array
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function parseMarkdownToBlocks(markdown: string): any[] {
-    const lines = markdown.split("\n");
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const blocks: any[] = [];
-    let i = 0;
-
-    while (i < lines.length) {
-        const line = lines[i];
-
-        // Skip empty lines
-        if (line.trim() === "") {
-            i++;
-            continue;
-        }
-
-        // Headings: # to ###### (h1 to h6, but BlockNote only supports 1-3)
-        const headingMatch = line.match(/^(#{1,6}) /);
-        if (headingMatch) {
-            const hashes = headingMatch[1].length;
-            // BlockNote only supports levels 1-3, so cap at 3
-            const level = Math.min(hashes, 3) as 1 | 2 | 3;
-            blocks.push({
-                type: "heading",
-                props: { level },
-                content: parseInlineMarkdown(line.slice(hashes + 1).trim()),
-            });
-            i++;
-            continue;
-        }
-
-        // Bullet list item: - item or * item
-        if (line.match(/^[\-\*] /)) {
-            blocks.push({
-                type: "bulletListItem",
-                content: parseInlineMarkdown(line.slice(2).trim()),
-            });
-            i++;
-            continue;
-        }
-
-        // Numbered list item: 1. item
-        if (line.match(/^\d+\. /)) {
-            const content = line.replace(/^\d+\. /, "").trim();
-            blocks.push({
-                type: "numberedListItem",
-                content: parseInlineMarkdown(content),
-            });
-            i++;
-            continue;
-        }
-
-        // Regular paragraph
-        blocks.push({
-            type: "paragraph",
-            content: parseInlineMarkdown(line.trim()),
-        });
-        i++;
-    }
-
-    return blocks;
+    url: string;
 }
 
-function YouTubeInput({ onSubmit }: { onSubmit: (url: string) => void }) {
+function YouTubeInput({
+    onSubmit,
+}: {
+    onSubmit: (url: string, options: MediaOptions) => void;
+}) {
     const [inputValue, setInputValue] = useState("");
+    const [quality, setQuality] = useState<VideoQuality>(DEFAULT_MEDIA_OPTIONS.quality);
+    const [audioOnly, setAudioOnly] = useState(DEFAULT_MEDIA_OPTIONS.audioOnly);
 
     return (
         <div style={{ padding: "12px", background: "#f5f5f5", borderRadius: "4px" }}>
@@ -163,98 +82,424 @@ function YouTubeInput({ onSubmit }: { onSubmit: (url: string) => void }) {
                     if (e.key === "Enter") {
                         e.preventDefault();
                         if (getYouTubeVideoId(inputValue)) {
-                            onSubmit(inputValue);
+                            onSubmit(inputValue, { quality, audioOnly });
                         }
                     }
                 }}
             />
+            <div style={{
+                marginTop: "8px",
+                display: "flex",
+                gap: "16px",
+                alignItems: "center",
+                fontSize: "13px",
+                color: "#555",
+            }}>
+                <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+                    Quality
+                    <select
+                        value={quality}
+                        disabled={audioOnly}
+                        onChange={(e) => setQuality(e.target.value as VideoQuality)}
+                        style={{ padding: "2px 4px", border: "1px solid #ddd", borderRadius: "4px" }}
+                    >
+                        {VIDEO_QUALITIES.map((value) => (
+                            <option key={value} value={value}>
+                                {value === "best" ? "Best available" : value}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label style={{ display: "flex", alignItems: "center", gap: "6px", cursor: "pointer" }}>
+                    <input
+                        type="checkbox"
+                        checked={audioOnly}
+                        onChange={(e) => setAudioOnly(e.target.checked)}
+                    />
+                    Audio only
+                </label>
+            </div>
         </div>
     );
 }
 
+// Drop zone and file picker for a video on disk, uploaded as soon as it's chosen
+function LocalVideoInput({
+    onUploaded,
+}: {
+    onUploaded: (videoId: string, name: string) => void;
+}) {
+    const [isDragging, setIsDragging] = useState(false);
+    // Fraction uploaded; 1 while the server converts the file
+    const [progress, setProgress] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const upload = async (file: File) => {
+        if (!isSupportedVideoFile(file.name)) {
+            setError(`Only ${LOCAL_VIDEO_EXTENSIONS.join(", ")} files are supported`);
+            return;
+        }
+        setError(null);
+        setProgress(0);
+        try {
+            const { videoId } = await uploadLocalVideo(file, setProgress);
+            onUploaded(videoId, file.name);
+        } catch (uploadError) {
+            console.error("Video upload error:", uploadError);
+            setError(uploadError instanceof Error ? uploadError.message : "Failed to upload video");
+            setProgress(null);
+        }
+    };
+
+    if (progress !== null) {
+        return (
+            <div style={{ padding: "12px", background: "#f5f5f5", borderRadius: "4px", fontSize: "14px" }}>
+                {progress < 1 ? `Uploading... ${Math.round(progress * 100)}%` : "Converting video..."}
+                <div style={{
+                    marginTop: "8px",
+                    height: "6px",
+                    background: "#e5e7eb",
+                    borderRadius: "3px",
+                    overflow: "hidden",
+                }}>
+                    <div style={{ width: `${progress * 100}%`, height: "100%", background: "#3b82f6" }} />
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <label
+            onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+                e.preventDefault();
+                setIsDragging(false);
+                const file = e.dataTransfer.files[0];
+                if (file) upload(file);
+            }}
+            style={{
+                display: "block",
+                padding: "24px 12px",
+                background: isDragging ? "#dbeafe" : "#f5f5f5",
+                border: `2px dashed ${isDragging ? "#3b82f6" : "#ddd"}`,
+                borderRadius: "4px",
+                textAlign: "center",
+                fontSize: "14px",
+                color: "#555",
+                cursor: "pointer",
+            }}
+        >
+            Drop a video file here or click to choose one ({LOCAL_VIDEO_EXTENSIONS.join(", ")})
+            <input
+                type="file"
+                accept={[...LOCAL_VIDEO_EXTENSIONS, "video/*"].join(",")}
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) upload(file);
+                }}
+                style={{ display: "none" }}
+            />
+            {error && <div style={{ marginTop: "8px", color: "#dc2626" }}>{error}</div>}
+        </label>
+    );
+}
+
+// Snapshots used to live in localStorage as PNG data URLs under this key
 function getSnapshotStorageKey(videoId: string) {
     return `vnotes-snapshots-${videoId}`;
 }
 
+const SNAPSHOT_FORMAT = "jpeg";
+const SNAPSHOT_QUALITY = 85;
+
+async function uploadSnapshot(
+    videoId: string,
+    image: Blob,
+    timestamp: number,
+    size?: { width: number; height: number }
+): Promise<Snapshot> {
+    const formData = new FormData();
+    formData.append("videoId", videoId);
+    formData.append("timestamp", String(timestamp));
+    formData.append("image", image);
+    formData.append("format", SNAPSHOT_FORMAT);
+    formData.append("quality", String(SNAPSHOT_QUALITY));
+    if (size) {
+        formData.append("width", String(size.width));
+        formData.append("height", String(size.height));
+    }
+
+    const data = await readJson<{ snapshot: Snapshot }>(
+        await fetch("/api/snapshots", { method: "POST", body: formData })
+    );
+    return data.snapshot;
+}
+
+const snapshotMigrations = new Map<string, Promise<void>>();
+
+// Upload snapshots left in localStorage by older versions, once per video
+function migrateLocalSnapshots(videoId: string): Promise<void> {
+    const existing = snapshotMigrations.get(videoId);
+    if (existing) return existing;
+
+    const migration = (async () => {
+        const key = getSnapshotStorageKey(videoId);
+        const saved = localStorage.getItem(key);
+        if (!saved) return;
+
+        let remaining: { timestamp: number; imageDataUrl: string }[];
+        try {
+            remaining = JSON.parse(saved);
+        } catch {
+            localStorage.removeItem(key);
+            return;
+        }
+
+        while (remaining.length > 0) {
+            const { timestamp, imageDataUrl } = remaining[0];
+            const image = await (await fetch(imageDataUrl)).blob();
+            await uploadSnapshot(videoId, image, timestamp);
+            remaining = remaining.slice(1);
+            // Keep what's left so a failure part-way resumes next time
+            localStorage.setItem(key, JSON.stringify(remaining));
+        }
+        localStorage.removeItem(key);
+    })();
+
+    snapshotMigrations.set(videoId, migration);
+    migration.catch(() => snapshotMigrations.delete(videoId));
+    return migration;
+}
+
+const SNAPSHOT_AUTO_INSERT_KEY = "vnotes-snapshot-auto-insert";
+
+// Prompt template last picked for summaries
+const SUMMARY_TEMPLATE_KEY = "vnotes-summary-template";
+
+function formatBytes(bytes: number) {
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(0)} KB`;
+    }
+    if (bytes < 1024 * 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+// Title, channel, length and description above the player
+function VideoHeader({ metadata, showThumbnail }: { metadata: VideoMetadata; showThumbnail: boolean }) {
+    const details = [
+        metadata.channel,
+        metadata.duration ? formatTime(metadata.duration) : null,
+        metadata.publishDate,
+    ].filter(Boolean);
+
+    return (
+        <div style={{ display: "flex", gap: "12px", marginBottom: "8px", maxWidth: "640px" }}>
+            {showThumbnail && metadata.thumbnailUrl && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                    src={metadata.thumbnailUrl}
+                    alt=""
+                    style={{ width: "96px", height: "54px", objectFit: "cover", borderRadius: "4px" }}
+                />
+            )}
+            <div style={{ minWidth: 0, flex: 1 }}>
+                {isLocalVideoId(metadata.videoId) ? (
+                    <span style={{ fontSize: "15px", fontWeight: 600 }}>{metadata.title}</span>
+                ) : (
+                    <a
+                        href={`https://www.youtube.com/watch?v=${metadata.videoId}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        style={{ fontSize: "15px", fontWeight: 600, color: "inherit", textDecoration: "none" }}
+                    >
+                        {metadata.title}
+                    </a>
+                )}
+                {details.length > 0 && (
+                    <div style={{ fontSize: "13px", color: "#6b7280" }}>{details.join(" · ")}</div>
+                )}
+                {metadata.description && (
+                    <details style={{ fontSize: "13px", color: "#555", marginTop: "4px" }}>
+                        <summary style={{ cursor: "pointer" }}>Description</summary>
+                        <div style={{
+                            marginTop: "4px",
+                            maxHeight: "160px",
+                            overflowY: "auto",
+                            whiteSpace: "pre-wrap",
+                        }}>
+                            {metadata.description}
+                        </div>
+                    </details>
+                )}
+            </div>
+        </div>
+    );
+}
+
+// Image block name marking a snapshot of a given video, so consecutive
+// snapshot blocks below the player can be found again. The extension is the
+// stored file's, which depends on the format the snapshot was saved in.
+function getSnapshotBlockName(videoId: string, snapshot: Snapshot) {
+    const extension = snapshot.url.slice(snapshot.url.lastIndexOf(".") + 1);
+    return `snapshot-${videoId}-${snapshot.timestamp.toFixed(2)}.${extension}`;
+}
+
 function VideoPlayer({
     videoId,
-    youtubeUrl,
+    quality,
+    audioOnly,
+    start = 0,
+    queuedSummaryJobId = "",
+    onQueuedSummaryHandled,
     blockId,
     editor,
 }: {
     videoId: string;
-    youtubeUrl: string;
+    quality: VideoQuality;
+    // Plays the audio track alone; there are no frames to snapshot
+    audioOnly: boolean;
+    // Seconds to begin playback at, e.g. from a link's t= offset
+    start?: number;
+    // Summary queued before the player was shown, e.g. by a playlist import;
+    // inserted once it finishes, then handed back through the callback
+    queuedSummaryJobId?: string;
+    onQueuedSummaryHandled?: () => void;
     blockId: string;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     editor: any;
 }) {
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [snapshots, setSnapshots] = useState<Snapshot[]>(() => {
-        // Load snapshots from localStorage on init
-        if (typeof window === "undefined") return [];
-        const saved = localStorage.getItem(getSnapshotStorageKey(videoId));
-        if (saved) {
-            try {
-                return JSON.parse(saved);
-            } catch {
-                return [];
-            }
-        }
-        return [];
-    });
+    const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
     const [isReady, setIsReady] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
+    const [downloadJob, setDownloadJob] = useState<Job | null>(null);
     const [downloadError, setDownloadError] = useState<string | null>(null);
     const [videoPath, setVideoPath] = useState<string | null>(null);
+    const [metadata, setMetadata] = useState<VideoMetadata | null>(null);
     const [isSummarizing, setIsSummarizing] = useState(false);
+    const [summarizeJob, setSummarizeJob] = useState<Job | null>(null);
+    const [showTranscript, setShowTranscript] = useState(false);
+    const [showAsk, setShowAsk] = useState(false);
+    const [autoInsertSnapshots, setAutoInsertSnapshots] = useState(
+        () => typeof window !== "undefined" && localStorage.getItem(SNAPSHOT_AUTO_INSERT_KEY) === "true"
+    );
+    const [transcriptRefreshKey, setTranscriptRefreshKey] = useState(0);
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [summaryMode, setSummaryMode] = useState<SummaryMode>("overview");
+    const [isGeneratingFlashcards, setIsGeneratingFlashcards] = useState(false);
+    const [templateId, setTemplateId] = useState(
+        () => (typeof window !== "undefined" && localStorage.getItem(SUMMARY_TEMPLATE_KEY)) || DEFAULT_TEMPLATE_ID
+    );
+
+    // Metadata is cached alongside the download, so look it up once the media is there
+    useEffect(() => {
+        if (!videoPath) return;
+        const controller = new AbortController();
+        fetch(`/api/youtube?videoId=${videoId}`, { signal: controller.signal })
+            .then((res) => res.json())
+            .then((data) => setMetadata(data.metadata ?? null))
+            .catch((error) => {
+                if (!controller.signal.aborted) {
+                    console.error("Failed to load video metadata:", error);
+                }
+            });
+        return () => {
+            controller.abort();
+        };
+    }, [videoId, videoPath]);
 
-    // Save snapshots to localStorage whenever they change
     useEffect(() => {
-        localStorage.setItem(getSnapshotStorageKey(videoId), JSON.stringify(snapshots));
-    }, [videoId, snapshots]);
+        fetchTemplates()
+            .then(setTemplates)
+            .catch((error) => {
+                console.error("Failed to load prompt templates:", error);
+            });
+    }, []);
 
-    // Check if video exists or download it
+    // Let timestamps on the page find and seek this player
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        return registerVideoPlayer(videoId, video);
+    }, [videoId, videoPath]);
+
+    // Load stored snapshots, migrating any left in localStorage first
     useEffect(() => {
         let cancelled = false;
 
+        async function loadSnapshots() {
+            await migrateLocalSnapshots(videoId);
+            const response = await fetch(`/api/snapshots?videoId=${videoId}`);
+            const data = await response.json();
+            if (!cancelled) {
+                setSnapshots(data.snapshots || []);
+            }
+        }
+
+        loadSnapshots().catch((error) => {
+            console.error("Failed to load snapshots:", error);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [videoId]);
+
+    // Check if video exists, otherwise download it as a background job.
+    // Enqueueing reattaches to a download already in flight for this video.
+    useEffect(() => {
+        const controller = new AbortController();
+
         async function checkOrDownloadVideo() {
             try {
                 // First check if video already exists
-                const checkRes = await fetch(`/api/youtube?videoId=${videoId}`);
+                const checkRes = await fetch(
+                    `/api/youtube?videoId=${videoId}${audioOnly ? "&audioOnly=1" : ""}`
+                );
                 const checkData = await checkRes.json();
+                if (controller.signal.aborted) return;
 
                 if (checkData.exists) {
-                    if (!cancelled) {
-                        setVideoPath(checkData.videoPath);
-                    }
+                    setVideoPath(checkData.videoPath);
                     return;
                 }
 
-                // Download the video
-                if (!cancelled) {
-                    setIsDownloading(true);
-                    setDownloadError(null);
+                // Uploaded files have nowhere to be downloaded from
+                if (isLocalVideoId(videoId)) {
+                    setDownloadError("This video file is no longer in the videos folder");
+                    return;
                 }
 
-                const downloadRes = await fetch("/api/youtube", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ url: youtubeUrl }),
-                });
+                setIsDownloading(true);
+                setDownloadError(null);
 
-                const downloadData = await downloadRes.json();
+                const job = await watchJob(
+                    await enqueueJob("download", videoId, { quality, audioOnly }),
+                    setDownloadJob,
+                    controller.signal
+                );
+                if (!job) return;
 
-                if (!cancelled) {
-                    if (downloadData.success) {
-                        setVideoPath(downloadData.videoPath);
-                    } else {
-                        setDownloadError(downloadData.error || "Failed to download video");
-                    }
-                    setIsDownloading(false);
+                if (job.status === "completed" && job.result) {
+                    setVideoPath((job.result as DownloadResult).videoPath);
+                } else {
+                    setDownloadError(
+                        job.status === "cancelled"
+                            ? "Download cancelled"
+                            : job.error || "Failed to download video"
+                    );
                 }
+                setIsDownloading(false);
             } catch (error) {
-                if (!cancelled) {
+                console.error("Download error:", error);
+                if (!controller.signal.aborted) {
                     setDownloadError("Failed to download video");
                     setIsDownloading(false);
                 }
@@ -264,11 +509,59 @@ function VideoPlayer({
         checkOrDownloadVideo();
 
         return () => {
-            cancelled = true;
+            controller.abort();
         };
-    }, [videoId, youtubeUrl]);
+    }, [videoId, quality, audioOnly]);
+
+    // Add a snapshot to the note as an image block below the player, after
+    // any snapshots of this video already inserted there
+    const insertSnapshot = useCallback((snapshot: Snapshot) => {
+        let reference = blockId;
+        let next = editor.getNextBlock(reference);
+        while (next?.type === "image" && next.props.name.startsWith(`snapshot-${videoId}-`)) {
+            reference = next.id;
+            next = editor.getNextBlock(reference);
+        }
 
-    const takeSnapshot = useCallback(() => {
+        editor.insertBlocks(
+            [
+                {
+                    type: "image",
+                    props: {
+                        url: snapshot.url,
+                        name: getSnapshotBlockName(videoId, snapshot),
+                        caption: `Snapshot at ${formatTime(snapshot.timestamp)}`,
+                    },
+                    children: [
+                        {
+                            type: "paragraph",
+                            content: [
+                                {
+                                    type: "videoTimestamp",
+                                    props: { videoId, time: snapshot.timestamp },
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+            reference,
+            "after"
+        );
+    }, [editor, blockId, videoId]);
+
+    const toggleAutoInsertSnapshots = useCallback(() => {
+        const next = !autoInsertSnapshots;
+        setAutoInsertSnapshots(next);
+        localStorage.setItem(SNAPSHOT_AUTO_INSERT_KEY, String(next));
+    }, [autoInsertSnapshots]);
+
+    const selectTemplate = useCallback((id: string) => {
+        setTemplateId(id);
+        localStorage.setItem(SUMMARY_TEMPLATE_KEY, id);
+    }, []);
+
+    const takeSnapshot = useCallback(async () => {
         const video = videoRef.current;
         const canvas = canvasRef.current;
         if (!video || !canvas) return;
@@ -291,16 +584,29 @@ function VideoPlayer({
         // Draw current frame to canvas
         ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
 
-        // Get image data URL
-        const imageDataUrl = canvas.toDataURL("image/png");
-
-        const snapshot: Snapshot = {
-            timestamp: video.currentTime,
-            imageDataUrl,
-        };
+        // Upload a lossless frame; the server re-encodes it for storage
+        const timestamp = video.currentTime;
+        const image = await new Promise<Blob | null>((resolve) =>
+            canvas.toBlob(resolve, "image/png")
+        );
+        if (!image) return;
 
-        setSnapshots((prev) => [...prev, snapshot]);
-    }, []);
+        try {
+            const snapshot = await uploadSnapshot(videoId, image, timestamp, {
+                width: canvas.width,
+                height: canvas.height,
+            });
+            setSnapshots((prev) =>
+                [...prev, snapshot].sort((a, b) => a.timestamp - b.timestamp)
+            );
+            if (autoInsertSnapshots) {
+                insertSnapshot(snapshot);
+            }
+        } catch (error) {
+            console.error("Snapshot error:", error);
+            alert("Failed to save snapshot");
+        }
+    }, [videoId, autoInsertSnapshots, insertSnapshot]);
 
     const seekToSnapshot = useCallback((timestamp: number) => {
         const video = videoRef.current;
@@ -309,36 +615,160 @@ function VideoPlayer({
         }
     }, []);
 
-    const removeSnapshot = useCallback((index: number) => {
-        setSnapshots((prev) => prev.filter((_, i) => i !== index));
-    }, []);
+    const removeSnapshot = useCallback(async (id: string) => {
+        try {
+            await fetch(`/api/snapshots?videoId=${videoId}&id=${id}`, { method: "DELETE" });
+            setSnapshots((prev) => prev.filter((snapshot) => snapshot.id !== id));
+        } catch (error) {
+            console.error("Failed to delete snapshot:", error);
+        }
+    }, [videoId]);
 
-    const handleSummarize = useCallback(async () => {
+    // Follow a summarize job to the end and insert its summary below the player
+    const followSummarizeJob = useCallback(async (job: Job, signal: AbortSignal) => {
         setIsSummarizing(true);
         try {
-            const response = await fetch("/api/summarize", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ videoId }),
-            });
-            const data = await response.json();
+            const finished = await watchJob(job, setSummarizeJob, signal);
+            if (!finished) return;
+
+            // Summarizing transcribes the video, so the transcript may be new
+            setTranscriptRefreshKey((key) => key + 1);
 
-            if (data.success && data.summary) {
+            if (finished.status === "completed" && finished.result) {
                 // Parse markdown summary into BlockNote blocks
-                const blocks = parseMarkdownToBlocks(data.summary);
+                const blocks = parseMarkdownToBlocks((finished.result as SummarizeResult).summary, videoId);
                 editor.insertBlocks(blocks, blockId, "after");
-            } else {
-                alert(data.error || "Failed to generate summary");
+            } else if (finished.status === "failed") {
+                alert(finished.error || "Failed to generate summary");
             }
         } catch (error) {
             console.error("Summarization error:", error);
             alert("Failed to generate summary");
         } finally {
-            setIsSummarizing(false);
+            if (!signal.aborted) {
+                setIsSummarizing(false);
+                setSummarizeJob(null);
+            }
+        }
+    }, [editor, blockId, videoId]);
+
+    const unmountSignalRef = useRef<AbortSignal | null>(null);
+
+    // The block passes a new callback on every render; keep the latest
+    // without restarting the effect below
+    const onQueuedSummaryHandledRef = useRef(onQueuedSummaryHandled);
+    useEffect(() => {
+        onQueuedSummaryHandledRef.current = onQueuedSummaryHandled;
+    }, [onQueuedSummaryHandled]);
+
+    // Reattach to a summary still being generated, e.g. after a reload, or
+    // pick up the one queued for this block
+    useEffect(() => {
+        const controller = new AbortController();
+        unmountSignalRef.current = controller.signal;
+
+        if (queuedSummaryJobId) {
+            fetchJob(queuedSummaryJobId)
+                .then(async (job) => {
+                    if (controller.signal.aborted) return;
+                    await followSummarizeJob(job, controller.signal);
+                    if (!controller.signal.aborted) onQueuedSummaryHandledRef.current?.();
+                })
+                .catch((error) => {
+                    // The job record is gone, e.g. pruned after a week
+                    console.error("Failed to load queued summary:", error);
+                    if (!controller.signal.aborted) onQueuedSummaryHandledRef.current?.();
+                });
+        } else {
+            fetchJobs({ videoId, type: "summarize", active: true })
+                .then((jobs) => {
+                    const job = jobs.find((active) => active.options.audioOnly === audioOnly);
+                    if (job && !controller.signal.aborted) {
+                        followSummarizeJob(job, controller.signal);
+                    }
+                })
+                .catch((error) => {
+                    console.error("Failed to load summarize jobs:", error);
+                });
+        }
+
+        return () => {
+            controller.abort();
+        };
+    }, [videoId, audioOnly, queuedSummaryJobId, followSummarizeJob]);
+
+    const handleCancelJob = useCallback((jobId: string) => {
+        cancelJob(jobId).catch((error) => {
+            console.error("Failed to cancel job:", error);
+        });
+    }, []);
+
+    const handleSummarize = useCallback(async () => {
+        const signal = unmountSignalRef.current;
+        if (!signal) return;
+        try {
+            // Returns the job already running for this video, if any
+            // A template deleted since it was picked falls back to the default
+            const template = templates.some((t) => t.id === templateId) ? templateId : null;
+            const job = await enqueueJob(
+                "summarize",
+                videoId,
+                { quality, audioOnly },
+                { templateId: template, mode: summaryMode }
+            );
+            await followSummarizeJob(job, signal);
+        } catch (error) {
+            console.error("Summarization error:", error);
+            alert("Failed to generate summary");
         }
-    }, [videoId, editor, blockId]);
+    }, [videoId, quality, audioOnly, templates, templateId, summaryMode, followSummarizeJob]);
+
+    // The answer goes below the player as blocks, its citations as timestamps,
+    // after the question in bold
+    const insertAnswer = useCallback((answer: ChatMessage, question: string | null) => {
+        editor.insertBlocks(
+            [
+                ...(question
+                    ? [{ type: "paragraph", content: [{ type: "text", text: question, styles: { bold: true } }] }]
+                    : []),
+                ...parseMarkdownToBlocks(answer.content, videoId),
+            ],
+            blockId,
+            "after"
+        );
+    }, [editor, blockId, videoId]);
+
+    // Cards go below the player under their own heading
+    const handleGenerateFlashcards = useCallback(async () => {
+        setIsGeneratingFlashcards(true);
+        try {
+            const cards = await generateFlashcards(videoId);
+            editor.insertBlocks(
+                [
+                    {
+                        type: "heading",
+                        props: { level: 3 },
+                        content: [{ type: "text", text: "Flashcards", styles: {} }],
+                    },
+                    ...cards.map((card) => ({ type: "flashcard", props: card })),
+                ],
+                blockId,
+                "after"
+            );
+        } catch (error) {
+            console.error("Flashcard generation error:", error);
+            alert(error instanceof Error ? error.message : "Failed to generate flashcards");
+        } finally {
+            setIsGeneratingFlashcards(false);
+        }
+    }, [editor, blockId, videoId]);
 
     if (isDownloading) {
+        const progress = downloadJob?.progress;
+        const percent = progress?.totalBytes
+            ? Math.min(100, (progress.receivedBytes / progress.totalBytes) * 100)
+            : null;
+
         return (
             <div style={{
                 width: "640px",
@@ -352,16 +782,62 @@ function VideoPlayer({
                 flexDirection: "column",
                 gap: "12px",
             }}>
-                <div style={{
-                    width: "40px",
-                    height: "40px",
-                    border: "3px solid #333",
-                    borderTopColor: "#fff",
-                    borderRadius: "50%",
-                    animation: "spin 1s linear infinite",
-                }} />
-                <style>{`@keyframes spin { to { transform: rotate(360deg); } }`}</style>
-                <span>Downloading video...</span>
+                {percent === null ? (
+                    <>
+                        <div style={{
+                            width: "40px",
+                            height: "40px",
+                            border: "3px solid #333",
+                            borderTopColor: "#fff",
+                            borderRadius: "50%",
+                            animation: "spin 1s linear infinite",
+                        }} />
+                        <style>{`@keyframes spin { to { transform: rotate(360deg); } }`}</style>
+                    </>
+                ) : (
+                    <div style={{
+                        width: "320px",
+                        height: "6px",
+                        background: "#333",
+                        borderRadius: "3px",
+                        overflow: "hidden",
+                    }}>
+                        <div style={{
+                            width: `${percent}%`,
+                            height: "100%",
+                            background: "#fff",
+                            transition: "width 0.3s ease",
+                        }} />
+                    </div>
+                )}
+                <span>
+                    {downloadJob?.status === "queued"
+                        ? "Waiting in queue..."
+                        : `Downloading ${audioOnly ? "audio" : "video"}...`}
+                </span>
+                {progress && (
+                    <span style={{ fontSize: "13px", color: "#aaa" }}>
+                        {formatBytes(progress.receivedBytes)}
+                        {progress.totalBytes !== null && percent !== null &&
+                            ` of ${formatBytes(progress.totalBytes)} (${Math.floor(percent)}%)`}
+                    </span>
+                )}
+                {downloadJob && (
+                    <button
+                        onClick={() => handleCancelJob(downloadJob.id)}
+                        style={{
+                            padding: "4px 12px",
+                            background: "transparent",
+                            color: "white",
+                            border: "1px solid #666",
+                            borderRadius: "4px",
+                            cursor: "pointer",
+                            fontSize: "13px",
+                        }}
+                    >
+                        Cancel
+                    </button>
+                )}
             </div>
         );
     }
@@ -397,67 +873,203 @@ function VideoPlayer({
     }
 
     return (
-        <div style={{ width: "100%", maxWidth: "640px" }}>
-            <video
-                ref={videoRef}
-                src={videoPath}
-                controls
-                onLoadedData={() => setIsReady(true)}
-                style={{
-                    width: "640px",
-                    height: "360px",
-                    borderRadius: "4px",
-                    background: "#000",
-                }}
-            />
+        <div style={{ width: "100%", maxWidth: showTranscript ? "932px" : "640px" }}>
+            {metadata && <VideoHeader metadata={metadata} showThumbnail={audioOnly} />}
+            <div style={{ display: "flex", gap: "12px", alignItems: "flex-start" }}>
+                <video
+                    ref={videoRef}
+                    src={videoPath}
+                    controls
+                    onLoadedMetadata={(e) => {
+                        if (start > 0 && e.currentTarget.currentTime === 0) {
+                            e.currentTarget.currentTime = start;
+                        }
+                    }}
+                    onLoadedData={() => setIsReady(true)}
+                    style={{
+                        width: "640px",
+                        // Audio-only media just needs the playback controls
+                        height: audioOnly ? "54px" : "360px",
+                        borderRadius: "4px",
+                        background: "#000",
+                    }}
+                />
+                {showTranscript && (
+                    <TranscriptPanel
+                        videoId={videoId}
+                        videoRef={videoRef}
+                        refreshKey={transcriptRefreshKey}
+                    />
+                )}
+            </div>
             {/* Hidden canvas for frame capture */}
             <canvas ref={canvasRef} style={{ display: "none" }} />
 
             {isReady && (
                 <div style={{ marginTop: "8px", display: "flex", gap: "8px" }}>
+                    {!audioOnly && (
+                        <button
+                            onClick={takeSnapshot}
+                            style={{
+                                padding: "8px 16px",
+                                background: "#3b82f6",
+                                color: "white",
+                                border: "none",
+                                borderRadius: "4px",
+                                cursor: "pointer",
+                                fontSize: "14px",
+                                fontWeight: 500,
+                            }}
+                        >
+                            Snapshot
+                        </button>
+                    )}
                     <button
-                        onClick={takeSnapshot}
+                        onClick={handleSummarize}
+                        disabled={isSummarizing}
                         style={{
                             padding: "8px 16px",
-                            background: "#3b82f6",
+                            background: isSummarizing ? "#9ca3af" : "#10b981",
                             color: "white",
                             border: "none",
                             borderRadius: "4px",
-                            cursor: "pointer",
+                            cursor: isSummarizing ? "not-allowed" : "pointer",
                             fontSize: "14px",
                             fontWeight: 500,
                         }}
                     >
-                        Snapshot
+                        {isSummarizing ? "Summarizing..." : "Summarize"}
                     </button>
+                    {templates.length > 0 && (
+                        <select
+                            value={templates.some((t) => t.id === templateId) ? templateId : DEFAULT_TEMPLATE_ID}
+                            onChange={(e) => selectTemplate(e.target.value)}
+                            disabled={isSummarizing}
+                            title="Summary template"
+                            style={{
+                                padding: "8px",
+                                border: "1px solid #d1d5db",
+                                borderRadius: "4px",
+                                fontSize: "14px",
+                                color: "#333",
+                                background: "white",
+                            }}
+                        >
+                            {templates.map((template) => (
+                                <option key={template.id} value={template.id} title={template.description}>
+                                    {template.name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <label
+                        title="One section per YouTube chapter, headed by its start time"
+                        style={{
+                            display: "flex",
+                            alignItems: "center",
+                            gap: "6px",
+                            fontSize: "13px",
+                            color: "#555",
+                            cursor: "pointer",
+                        }}
+                    >
+                        <input
+                            type="checkbox"
+                            checked={summaryMode === "chapters"}
+                            onChange={(e) => setSummaryMode(e.target.checked ? "chapters" : "overview")}
+                            disabled={isSummarizing}
+                        />
+                        By chapter
+                    </label>
                     <button
-                        onClick={handleSummarize}
-                        disabled={isSummarizing}
+                        onClick={handleGenerateFlashcards}
+                        disabled={isGeneratingFlashcards}
+                        title="Question/answer cards from the transcript"
                         style={{
                             padding: "8px 16px",
-                            background: isSummarizing ? "#9ca3af" : "#10b981",
+                            background: isGeneratingFlashcards ? "#9ca3af" : "#8b5cf6",
                             color: "white",
                             border: "none",
                             borderRadius: "4px",
-                            cursor: isSummarizing ? "not-allowed" : "pointer",
+                            cursor: isGeneratingFlashcards ? "not-allowed" : "pointer",
                             fontSize: "14px",
                             fontWeight: 500,
                         }}
                     >
-                        {isSummarizing ? "Summarizing..." : "Summarize"}
+                        {isGeneratingFlashcards ? "Generating..." : "Generate flashcards"}
+                    </button>
+                    <button
+                        onClick={() => setShowTranscript((show) => !show)}
+                        style={{
+                            padding: "8px 16px",
+                            background: showTranscript ? "#e5e7eb" : "white",
+                            color: "#333",
+                            border: "1px solid #d1d5db",
+                            borderRadius: "4px",
+                            cursor: "pointer",
+                            fontSize: "14px",
+                            fontWeight: 500,
+                        }}
+                    >
+                        Transcript
+                    </button>
+                    <button
+                        onClick={() => setShowAsk((show) => !show)}
+                        title="Chat about the video, with answers citing its timestamps"
+                        style={{
+                            padding: "8px 16px",
+                            background: showAsk ? "#e5e7eb" : "white",
+                            color: "#333",
+                            border: "1px solid #d1d5db",
+                            borderRadius: "4px",
+                            cursor: "pointer",
+                            fontSize: "14px",
+                            fontWeight: 500,
+                        }}
+                    >
+                        Ask
                     </button>
+                    {!audioOnly && (
+                        <label style={{
+                            display: "flex",
+                            alignItems: "center",
+                            gap: "6px",
+                            fontSize: "13px",
+                            color: "#555",
+                            cursor: "pointer",
+                        }}>
+                            <input
+                                type="checkbox"
+                                checked={autoInsertSnapshots}
+                                onChange={toggleAutoInsertSnapshots}
+                            />
+                            Insert snapshots into note
+                        </label>
+                    )}
                 </div>
             )}
 
+            {showAsk && (
+                <AskPanel videoId={videoId} videoRef={videoRef} onInsert={insertAnswer} />
+            )}
+
+            {isSummarizing && (
+                <SummarizeProgress
+                    events={summarizeJob?.events ?? []}
+                    queued={summarizeJob?.status === "queued"}
+                    onCancel={summarizeJob ? () => handleCancelJob(summarizeJob.id) : undefined}
+                />
+            )}
+
             {snapshots.length > 0 && (
                 <div style={{ marginTop: "12px" }}>
                     <div style={{ fontSize: "14px", fontWeight: 500, marginBottom: "8px", color: "#333" }}>
                         Snapshots:
                     </div>
                     <div style={{ display: "flex", flexWrap: "wrap", gap: "8px" }}>
-                        {snapshots.map((snapshot, index) => (
+                        {snapshots.map((snapshot) => (
                             <div
-                                key={index}
+                                key={snapshot.id}
                                 style={{
                                     position: "relative",
                                     width: "120px",
@@ -468,7 +1080,7 @@ function VideoPlayer({
                                 }}
                             >
                                 <img
-                                    src={snapshot.imageDataUrl}
+                                    src={snapshot.url}
                                     alt={`Snapshot at ${formatTime(snapshot.timestamp)}`}
                                     style={{ width: "100%", display: "block" }}
                                     onClick={() => seekToSnapshot(snapshot.timestamp)}
@@ -492,7 +1104,30 @@ function VideoPlayer({
                                 <button
                                     onClick={(e) => {
                                         e.stopPropagation();
-                                        removeSnapshot(index);
+                                        insertSnapshot(snapshot);
+                                    }}
+                                    title="Insert into note"
+                                    style={{
+                                        position: "absolute",
+                                        top: "2px",
+                                        left: "2px",
+                                        background: "rgba(0,0,0,0.6)",
+                                        color: "white",
+                                        border: "none",
+                                        borderRadius: "4px",
+                                        height: "20px",
+                                        cursor: "pointer",
+                                        fontSize: "11px",
+                                        lineHeight: "20px",
+                                        padding: "0 6px",
+                                    }}
+                                >
+                                    Insert
+                                </button>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        removeSnapshot(snapshot.id);
                                     }}
                                     style={{
                                         position: "absolute",
@@ -526,6 +1161,12 @@ const YouTubeBlock = createReactBlockSpec(
         type: "youtube",
         propSchema: {
             url: { default: "" },
+            quality: { default: DEFAULT_MEDIA_OPTIONS.quality, values: VIDEO_QUALITIES },
+            audioOnly: { default: DEFAULT_MEDIA_OPTIONS.audioOnly },
+            // Playback start in seconds, taken from the link's t= or start=
+            start: { default: 0 },
+            // Summary job to insert once it finishes; cleared when inserted
+            summaryJobId: { default: "" },
         },
         content: "none",
     },
@@ -536,17 +1177,70 @@ const YouTubeBlock = createReactBlockSpec(
             if (!videoId) {
                 return (
                     <YouTubeInput
-                        onSubmit={(url) => {
+                        onSubmit={(url, options) => {
+                            const start = parseYouTubeUrl(url)?.start ?? 0;
+                            editor.replaceBlocks(
+                                [block.id],
+                                [{ type: "youtube", props: { url, start, ...options } }]
+                            );
+                        }}
+                    />
+                );
+            }
+
+            return (
+                <VideoPlayer
+                    videoId={videoId}
+                    quality={block.props.quality}
+                    audioOnly={block.props.audioOnly}
+                    start={block.props.start}
+                    queuedSummaryJobId={block.props.summaryJobId}
+                    onQueuedSummaryHandled={() =>
+                        editor.updateBlock(block, { props: { summaryJobId: "" } })
+                    }
+                    blockId={block.id}
+                    editor={editor}
+                />
+            );
+        },
+    }
+);
+
+// A video uploaded from disk, played and summarized like a YouTube download
+const LocalVideoBlock = createReactBlockSpec(
+    {
+        type: "localVideo",
+        propSchema: {
+            videoId: { default: "" },
+            // Original file name
+            name: { default: "" },
+        },
+        content: "none",
+    },
+    {
+        render: ({ block, editor }) => {
+            if (!block.props.videoId) {
+                return (
+                    <LocalVideoInput
+                        onUploaded={(videoId, name) => {
                             editor.replaceBlocks(
                                 [block.id],
-                                [{ type: "youtube", props: { url } }]
+                                [{ type: "localVideo", props: { videoId, name } }]
                             );
                         }}
                     />
                 );
             }
 
-            return <VideoPlayer videoId={videoId} youtubeUrl={block.props.url} blockId={block.id} editor={editor} />;
+            return (
+                <VideoPlayer
+                    videoId={block.props.videoId}
+                    quality={DEFAULT_MEDIA_OPTIONS.quality}
+                    audioOnly={false}
+                    blockId={block.id}
+                    editor={editor}
+                />
+            );
         },
     }
 );
@@ -555,9 +1249,56 @@ const schema = BlockNoteSchema.create({
     blockSpecs: {
         ...defaultBlockSpecs,
         youtube: YouTubeBlock(),
+        localVideo: LocalVideoBlock(),
+        flashcard: FlashcardBlock(),
+    },
+    inlineContentSpecs: {
+        ...defaultInlineContentSpecs,
+        videoTimestamp: VideoTimestamp,
     },
 });
 
+// Video id of the video block closest above the cursor, falling back to
+// the first one below it
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function findNearestVideoId(editor: any): string | null {
+    const cursorBlockId = editor.getTextCursorPosition().block.id;
+    let before: string | null = null;
+    let after: string | null = null;
+    let passedCursor = false;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const visit = (blocks: any[]) => {
+        for (const block of blocks) {
+            if (block.id === cursorBlockId) passedCursor = true;
+            if (block.type === "youtube" || block.type === "localVideo") {
+                const videoId =
+                    block.type === "youtube" ? getYouTubeVideoId(block.props.url) : block.props.videoId;
+                if (videoId && !passedCursor) before = videoId;
+                if (videoId && passedCursor && !after) after = videoId;
+            }
+            visit(block.children || []);
+        }
+    };
+    visit(editor.document);
+
+    return before || after;
+}
+
+// Insert a timestamp for the nearest video's current playback position
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function insertVideoTimestamp(editor: any): boolean {
+    const videoId = findNearestVideoId(editor);
+    if (!videoId) return false;
+
+    const time = getVideoPlayer(videoId)?.currentTime || 0;
+    editor.insertInlineContent([
+        { type: "videoTimestamp", props: { videoId, time } },
+        " ",
+    ]);
+    return true;
+}
+
 const insertYouTube = (editor: any): DefaultReactSuggestionItem => ({
     title: "YouTube",
     subtext: "Embed a YouTube video",
@@ -572,37 +1313,219 @@ const insertYouTube = (editor: any): DefaultReactSuggestionItem => ({
     group: "Embeds",
 });
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const insertLocalVideo = (editor: any): DefaultReactSuggestionItem => ({
+    title: "Local video",
+    subtext: "Upload a video file from your computer",
+    onItemClick: () => {
+        editor.insertBlocks(
+            [{ type: "localVideo" }],
+            editor.getTextCursorPosition().block,
+            "after"
+        );
+    },
+    aliases: ["local", "upload", "file", "mp4", "recording"],
+    group: "Embeds",
+});
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const insertTimestamp = (editor: any): DefaultReactSuggestionItem => ({
+    title: "Timestamp",
+    subtext: "Link to the current moment of the nearest video (Ctrl/Cmd+Shift+Y)",
+    onItemClick: () => {
+        insertVideoTimestamp(editor);
+    },
+    aliases: ["timestamp", "time", "moment"],
+    group: "Embeds",
+});
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const insertFlashcard = (editor: any): DefaultReactSuggestionItem => ({
+    title: "Flashcard",
+    subtext: "A question that flips to reveal its answer",
+    onItemClick: () => {
+        editor.insertBlocks(
+            [{ type: "flashcard" }],
+            editor.getTextCursorPosition().block,
+            "after"
+        );
+    },
+    aliases: ["flashcard", "card", "question", "quiz", "anki"],
+    group: "Study",
+});
+
 function getCustomSlashMenuItems(editor: any): DefaultReactSuggestionItem[] {
-    return [...getDefaultReactSlashMenuItems(editor), insertYouTube(editor)];
+    return [
+        ...getDefaultReactSlashMenuItems(editor),
+        insertYouTube(editor),
+        insertLocalVideo(editor),
+        insertTimestamp(editor),
+        insertFlashcard(editor),
+    ];
 }
 
-const STORAGE_KEY = "vnotes-blocks";
+const AUTOSAVE_DELAY_MS = 800;
+
+type SaveStatus = "saved" | "pending" | "saving" | "error";
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+    saved: "Saved",
+    pending: "Unsaved changes",
+    saving: "Saving...",
+    error: "Save failed",
+};
+
+// Lets the page write out a pending autosave, e.g. before exporting it
+export interface EditorHandle {
+    flushSave: () => Promise<void>;
+}
 
-export default function Editor() {
+export default function Editor({
+    pageId,
+    ref,
+    onFlashcardsChange,
+}: {
+    pageId: string;
+    ref?: Ref<EditorHandle>;
+    // Called with whether the page has any complete flashcards, on load and
+    // after every change
+    onFlashcardsChange?: (hasFlashcards: boolean) => void;
+}) {
     const editor = useCreateBlockNote({
         schema,
         initialContent: undefined,
     });
     const [isLoaded, setIsLoaded] = useState(false);
+    const [saveStatus, setSaveStatus] = useState<SaveStatus>("saved");
+    const [conflict, setConflict] = useState<{ page: Page; blocks: Blocks } | null>(null);
+
+    // Revision the editor content is based on, sent with every save
+    const revisionRef = useRef(0);
+    const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Saves are chained so they reach the server in order
+    const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+    const hasConflictRef = useRef(false);
+    // Set while replacing content programmatically so it isn't saved back
+    const isApplyingRef = useRef(false);
+
+    const applyBlocks = useCallback((blocks: Blocks) => {
+        isApplyingRef.current = true;
+        try {
+            editor.replaceBlocks(editor.document, blocks.length > 0 ? blocks : [{ type: "paragraph" }]);
+        } finally {
+            isApplyingRef.current = false;
+        }
+    }, [editor]);
 
     // Load saved content on mount
     useEffect(() => {
-        const savedContent = localStorage.getItem(STORAGE_KEY);
-        if (savedContent) {
+        let cancelled = false;
+
+        loadPageContent(pageId)
+            .then((content) => {
+                if (cancelled || !content) return;
+                revisionRef.current = content.page.revision;
+                if (content.blocks.length > 0) {
+                    applyBlocks(content.blocks);
+                }
+                onFlashcardsChange?.(hasCompleteFlashcard(content.blocks));
+            })
+            .catch((e) => console.error("Failed to load saved content:", e))
+            .finally(() => {
+                if (!cancelled) setIsLoaded(true);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [pageId, applyBlocks, onFlashcardsChange]);
+
+    const save = useCallback(() => {
+        saveQueueRef.current = saveQueueRef.current.then(async () => {
+            if (hasConflictRef.current) return;
+            setSaveStatus("saving");
             try {
-                const blocks = JSON.parse(savedContent);
-                editor.replaceBlocks(editor.document, blocks);
+                const result = await savePageBlocks(pageId, editor.document, revisionRef.current);
+                if (result.status === "conflict") {
+                    hasConflictRef.current = true;
+                    setConflict({ page: result.page, blocks: result.blocks });
+                    setSaveStatus("pending");
+                    return;
+                }
+                revisionRef.current = result.page.revision;
+                setSaveStatus(saveTimerRef.current ? "pending" : "saved");
             } catch (e) {
-                console.error("Failed to load saved content:", e);
+                console.error("Failed to save content:", e);
+                setSaveStatus("error");
             }
+        });
+        return saveQueueRef.current;
+    }, [editor, pageId]);
+
+    // Flush a pending autosave when leaving the page
+    useEffect(() => {
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            if (saveTimerRef.current || hasConflictRef.current) {
+                e.preventDefault();
+            }
+        };
+        window.addEventListener("beforeunload", handleBeforeUnload);
+
+        return () => {
+            window.removeEventListener("beforeunload", handleBeforeUnload);
+            if (saveTimerRef.current) {
+                clearTimeout(saveTimerRef.current);
+                saveTimerRef.current = null;
+                save();
+            }
+        };
+    }, [save]);
+
+    // Save now instead of waiting out the autosave delay
+    const flushSave = useCallback(() => {
+        if (!saveTimerRef.current) {
+            return saveQueueRef.current;
         }
-        setIsLoaded(true);
-    }, [editor]);
+        clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+        return save();
+    }, [save]);
+
+    useImperativeHandle(ref, () => ({ flushSave }), [flushSave]);
 
-    // Save content on change
+    // Debounced autosave on change
     const handleChange = useCallback(() => {
-        const blocks = editor.document;
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(blocks));
+        onFlashcardsChange?.(hasCompleteFlashcard(editor.document));
+        if (isApplyingRef.current) return;
+        setSaveStatus("pending");
+        if (saveTimerRef.current) {
+            clearTimeout(saveTimerRef.current);
+        }
+        saveTimerRef.current = setTimeout(() => {
+            saveTimerRef.current = null;
+            save();
+        }, AUTOSAVE_DELAY_MS);
+    }, [editor, save, onFlashcardsChange]);
+
+    const resolveConflict = useCallback((keep: "mine" | "theirs") => {
+        if (!conflict) return;
+        revisionRef.current = conflict.page.revision;
+        hasConflictRef.current = false;
+        setConflict(null);
+        if (keep === "theirs") {
+            applyBlocks(conflict.blocks);
+            setSaveStatus("saved");
+        } else {
+            save();
+        }
+    }, [conflict, applyBlocks, save]);
+
+    const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+        if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === "y") {
+            if (insertVideoTimestamp(editor)) {
+                e.preventDefault();
+            }
+        }
     }, [editor]);
 
     if (!isLoaded) {
@@ -610,13 +1533,44 @@ export default function Editor() {
     }
 
     return (
-        <BlockNoteView editor={editor} slashMenu={false} onChange={handleChange}>
-            <SuggestionMenuController
-                triggerCharacter="/"
-                getItems={async (query) =>
-                    filterSuggestionItems(getCustomSlashMenuItems(editor), query)
-                }
-            />
-        </BlockNoteView>
+        <div onKeyDown={handleKeyDown}>
+            {conflict && (
+                <div style={{
+                    margin: "0 54px 12px",
+                    padding: "12px",
+                    background: "#fef3c7",
+                    border: "1px solid #f59e0b",
+                    borderRadius: "4px",
+                    color: "#92400e",
+                    fontSize: "14px",
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "8px",
+                    flexWrap: "wrap",
+                }}>
+                    <span style={{ flex: 1 }}>
+                        This page was changed elsewhere since you opened it.
+                    </span>
+                    <button onClick={() => resolveConflict("theirs")}>Load their version</button>
+                    <button onClick={() => resolveConflict("mine")}>Keep mine</button>
+                </div>
+            )}
+            <div style={{
+                margin: "0 54px 4px",
+                fontSize: "12px",
+                color: saveStatus === "error" ? "#dc2626" : "var(--foreground-muted)",
+                textAlign: "right",
+            }}>
+                {SAVE_STATUS_LABELS[saveStatus]}
+            </div>
+            <BlockNoteView editor={editor} slashMenu={false} onChange={handleChange}>
+                <SuggestionMenuController
+                    triggerCharacter="/"
+                    getItems={async (query) =>
+                        filterSuggestionItems(getCustomSlashMenuItems(editor), query)
+                    }
+                />
+            </BlockNoteView>
+        </div>
     );
 }
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { createReactBlockSpec } from "@blocknote/react";
+import { formatTime } from "@/lib/time";
+import { seekVideo } from "@/lib/videoPlayers";
+
+const buttonStyle = {
+    padding: "4px 10px",
+    background: "white",
+    color: "#333",
+    border: "1px solid #d1d5db",
+    borderRadius: "4px",
+    cursor: "pointer",
+    fontSize: "13px",
+};
+
+const textareaStyle = {
+    width: "100%",
+    padding: "8px",
+    border: "1px solid #ddd",
+    borderRadius: "4px",
+    fontSize: "14px",
+    fontFamily: "inherit",
+    resize: "vertical" as const,
+};
+
+function FlashcardEditor({
+    front,
+    back,
+    onSave,
+}: {
+    front: string;
+    back: string;
+    onSave: (front: string, back: string) => void;
+}) {
+    const [draftFront, setDraftFront] = useState(front);
+    const [draftBack, setDraftBack] = useState(back);
+
+    return (
+        <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+            <textarea
+                placeholder="Question"
+                value={draftFront}
+                onChange={(e) => setDraftFront(e.target.value)}
+                rows={2}
+                style={textareaStyle}
+            />
+            <textarea
+                placeholder="Answer"
+                value={draftBack}
+                onChange={(e) => setDraftBack(e.target.value)}
+                rows={3}
+                style={textareaStyle}
+            />
+            <div>
+                <button
+                    onClick={() => onSave(draftFront.trim(), draftBack.trim())}
+                    disabled={!draftFront.trim() || !draftBack.trim()}
+                    style={buttonStyle}
+                >
+                    Done
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// A question that flips to its answer, with a link to the moment in the
+// video where the answer is discussed
+export const FlashcardBlock = createReactBlockSpec(
+    {
+        type: "flashcard",
+        propSchema: {
+            front: { default: "" },
+            back: { default: "" },
+            // Video the card was made from; empty for hand-written cards
+            videoId: { default: "" },
+            time: { default: 0 },
+        },
+        content: "none",
+    },
+    {
+        render: function Flashcard({ block, editor }) {
+            const { front, back, videoId, time } = block.props;
+            const [isFlipped, setIsFlipped] = useState(false);
+            // New, empty cards open for editing
+            const [isEditing, setIsEditing] = useState(!front && !back);
+
+            return (
+                <div style={{
+                    width: "100%",
+                    maxWidth: "640px",
+                    padding: "12px 16px",
+                    background: isFlipped ? "#f0fdf4" : "#f9fafb",
+                    border: "1px solid #e5e7eb",
+                    borderRadius: "8px",
+                }}>
+                    {isEditing ? (
+                        <FlashcardEditor
+                            front={front}
+                            back={back}
+                            onSave={(newFront, newBack) => {
+                                editor.updateBlock(block, { props: { front: newFront, back: newBack } });
+                                setIsEditing(false);
+                                setIsFlipped(false);
+                            }}
+                        />
+                    ) : (
+                        <>
+                            <div style={{ fontSize: "12px", color: "#6b7280", marginBottom: "4px" }}>
+                                {isFlipped ? "Answer" : "Question"}
+                            </div>
+                            <div style={{ fontSize: "15px", whiteSpace: "pre-wrap" }}>
+                                {isFlipped ? back : front}
+                            </div>
+                            <div style={{ marginTop: "10px", display: "flex", gap: "8px", alignItems: "center" }}>
+                                <button onClick={() => setIsFlipped((flipped) => !flipped)} style={buttonStyle}>
+                                    {isFlipped ? "Show question" : "Show answer"}
+                                </button>
+                                {videoId && (
+                                    <button
+                                        title="Jump to where the answer is discussed"
+                                        onClick={() => {
+                                            if (!seekVideo(videoId, time)) {
+                                                console.warn(`No player for video ${videoId} on this page`);
+                                            }
+                                        }}
+                                        style={{ ...buttonStyle, color: "#1d4ed8", fontVariantNumeric: "tabular-nums" }}
+                                    >
+                                        ▶ {formatTime(time)}
+                                    </button>
+                                )}
+                                <button onClick={() => setIsEditing(true)} style={buttonStyle}>
+                                    Edit
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            );
+        },
+        // Copied and exported HTML keeps both sides visible
+        toExternalHTML: ({ block }) => (
+            <div>
+                <p><strong>Q:</strong> {block.props.front}</p>
+                <p><strong>A:</strong> {block.props.back}</p>
+            </div>
+        ),
+    }
+);
@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import styles from "./HomeDashboard.module.css";
+import { createPage, usePages, UNTITLED_PAGE } from "@/lib/pages";
+
+const RECENT_PAGE_COUNT = 5;
+
+interface ProcessedVideo {
+  videoId: string;
+  title: string | null;
+  audioOnly: boolean;
+  downloaded: boolean;
+  transcribed: boolean;
+  summarized: boolean;
+  lastProcessedAt: number;
+  pages: { id: string; title: string }[];
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export default function HomeDashboard() {
+  const router = useRouter();
+  const { pages, isLoaded } = usePages();
+  const [videos, setVideos] = useState<ProcessedVideo[]>([]);
+  const [isLoadingVideos, setIsLoadingVideos] = useState(true);
+
+  useEffect(() => {
+    fetch("/api/videos")
+      .then((res) => res.json())
+      .then((data) => setVideos(data.videos || []))
+      .catch((err) => console.error("Failed to load videos:", err))
+      .finally(() => setIsLoadingVideos(false));
+  }, []);
+
+  const recentPages = useMemo(
+    () => [...pages].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, RECENT_PAGE_COUNT),
+    [pages]
+  );
+
+  const handleNewPage = async () => {
+    try {
+      const page = await createPage();
+      router.push(`/notes/${page.id}`);
+    } catch (err) {
+      console.error("Failed to create page:", err);
+    }
+  };
+
+  return (
+    <div className={styles.dashboard}>
+      <section className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h2 className={styles.sectionTitle}>Recent pages</h2>
+          <button className={styles.newPageButton} onClick={handleNewPage}>
+            + New page
+          </button>
+        </div>
+        {!isLoaded ? (
+          <p className={styles.empty}>Loading...</p>
+        ) : recentPages.length === 0 ? (
+          <p className={styles.empty}>No pages yet. Create one to start taking notes.</p>
+        ) : (
+          <ul className={styles.list}>
+            {recentPages.map((page) => (
+              <li key={page.id}>
+                <Link href={`/notes/${page.id}`} className={styles.item}>
+                  <span className={styles.itemTitle}>{page.title || UNTITLED_PAGE}</span>
+                  <span className={styles.itemMeta}>Edited {formatDate(page.updatedAt)}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h2 className={styles.sectionTitle}>Recent videos</h2>
+        </div>
+        {isLoadingVideos ? (
+          <p className={styles.empty}>Loading...</p>
+        ) : videos.length === 0 ? (
+          <p className={styles.empty}>No videos processed yet. Embed one with /youtube in a page.</p>
+        ) : (
+          <ul className={styles.list}>
+            {videos.map((video) => (
+              <li key={video.videoId} className={styles.item}>
+                <div className={styles.videoHeader}>
+                  <span className={styles.itemTitle}>{video.title || video.videoId}</span>
+                  <span className={styles.itemMeta}>{formatDate(video.lastProcessedAt)}</span>
+                </div>
+                <div className={styles.badges}>
+                  <span className={`${styles.badge} ${video.downloaded ? styles.done : ""}`}>Downloaded</span>
+                  <span className={`${styles.badge} ${video.transcribed ? styles.done : ""}`}>Transcribed</span>
+                  <span className={`${styles.badge} ${video.summarized ? styles.done : ""}`}>Summarized</span>
+                  {video.audioOnly && <span className={styles.badge}>Audio only</span>}
+                </div>
+                <div className={styles.videoPages}>
+                  {video.pages.length > 0 ? (
+                    video.pages.map((page) => (
+                      <Link key={page.id} href={`/notes/${page.id}`} className={styles.pageLink}>
+                        {page.title || UNTITLED_PAGE}
+                      </Link>
+                    ))
+                  ) : (
+                    <span className={styles.itemMeta}>Not embedded in any page</span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
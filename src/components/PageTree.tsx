@@ -0,0 +1,306 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import styles from "./PageTree.module.css";
+import {
+  createPage,
+  deletePage,
+  getAncestors,
+  getChildren,
+  getDescendants,
+  movePage,
+  updatePage,
+  usePages,
+  UNTITLED_PAGE,
+  type Page,
+} from "@/lib/pages";
+
+const DRAG_TYPE = "application/x-vnotes-page";
+
+const ChevronIcon = ({ expanded }: { expanded: boolean }) => (
+  <svg
+    width="14"
+    height="14"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    style={{ transform: expanded ? "rotate(90deg)" : undefined }}
+  >
+    <polyline points="9 18 15 12 9 6" />
+  </svg>
+);
+
+const PlusIcon = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="12" y1="5" x2="12" y2="19" />
+    <line x1="5" y1="12" x2="19" y2="12" />
+  </svg>
+);
+
+const PencilIcon = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M17 3a2.83 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5z" />
+  </svg>
+);
+
+const TrashIcon = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <polyline points="3 6 5 6 21 6" />
+    <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+    <path d="M10 11v6M14 11v6M9 6V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2" />
+  </svg>
+);
+
+interface PageNodeProps {
+  page: Page;
+  pages: Page[];
+  depth: number;
+  activePageId: string | null;
+  expanded: Set<string>;
+  onToggle: (pageId: string) => void;
+  onCreateChild: (parentId: string) => void;
+  onDelete: (page: Page) => void;
+  onMove: (pageId: string, parentId: string | null) => void;
+}
+
+function PageNode({
+  page,
+  pages,
+  depth,
+  activePageId,
+  expanded,
+  onToggle,
+  onCreateChild,
+  onDelete,
+  onMove,
+}: PageNodeProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(page.title);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const children = getChildren(pages, page.id);
+  const isExpanded = expanded.has(page.id);
+  const isActive = activePageId === page.id;
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    const title = draftTitle.trim() || UNTITLED_PAGE;
+    if (title !== page.title) {
+      updatePage(page.id, { title }).catch((err) => {
+        console.error("Failed to rename page:", err);
+      });
+    }
+  };
+
+  return (
+    <li>
+      <div
+        className={`${styles.node} ${isActive ? styles.active : ""} ${isDropTarget ? styles.dropTarget : ""}`}
+        style={{ paddingLeft: `${depth * 14 + 4}px` }}
+        draggable={!isRenaming}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(DRAG_TYPE, page.id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+          e.preventDefault();
+          e.stopPropagation();
+          setIsDropTarget(true);
+        }}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setIsDropTarget(false);
+          const draggedId = e.dataTransfer.getData(DRAG_TYPE);
+          if (draggedId && draggedId !== page.id) {
+            onMove(draggedId, page.id);
+          }
+        }}
+      >
+        <button
+          className={styles.toggle}
+          onClick={() => onToggle(page.id)}
+          style={{ visibility: children.length > 0 ? "visible" : "hidden" }}
+          title={isExpanded ? "Collapse" : "Expand"}
+        >
+          <ChevronIcon expanded={isExpanded} />
+        </button>
+        {isRenaming ? (
+          <input
+            className={styles.renameInput}
+            value={draftTitle}
+            autoFocus
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename();
+              if (e.key === "Escape") {
+                setDraftTitle(page.title);
+                setIsRenaming(false);
+              }
+            }}
+          />
+        ) : (
+          <Link href={`/notes/${page.id}`} className={styles.title} title={page.title}>
+            {page.title || UNTITLED_PAGE}
+          </Link>
+        )}
+        <div className={styles.actions}>
+          <button className={styles.action} onClick={() => onCreateChild(page.id)} title="Add sub-page">
+            <PlusIcon />
+          </button>
+          <button
+            className={styles.action}
+            onClick={() => {
+              setDraftTitle(page.title);
+              setIsRenaming(true);
+            }}
+            title="Rename"
+          >
+            <PencilIcon />
+          </button>
+          <button className={styles.action} onClick={() => onDelete(page)} title="Delete">
+            <TrashIcon />
+          </button>
+        </div>
+      </div>
+      {isExpanded && children.length > 0 && (
+        <ul className={styles.list}>
+          {children.map((child) => (
+            <PageNode
+              key={child.id}
+              page={child}
+              pages={pages}
+              depth={depth + 1}
+              activePageId={activePageId}
+              expanded={expanded}
+              onToggle={onToggle}
+              onCreateChild={onCreateChild}
+              onDelete={onDelete}
+              onMove={onMove}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function PageTree() {
+  const { pages, isLoaded } = usePages();
+  const pathname = usePathname();
+  const router = useRouter();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isRootDropTarget, setIsRootDropTarget] = useState(false);
+
+  const activePageId = pathname.startsWith("/notes/") ? pathname.split("/")[2] || null : null;
+
+  const expand = (pageIds: string[]) => {
+    setExpanded((prev) => new Set([...prev, ...pageIds]));
+  };
+
+  const handleToggle = (pageId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(pageId)) {
+        next.delete(pageId);
+      } else {
+        next.add(pageId);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async (parentId: string | null) => {
+    try {
+      const page = await createPage({ parentId });
+      if (parentId) expand([parentId]);
+      router.push(`/notes/${page.id}`);
+    } catch (err) {
+      console.error("Failed to create page:", err);
+    }
+  };
+
+  const handleDelete = async (page: Page) => {
+    const descendantCount = getDescendants(pages, page.id).length;
+    const message =
+      descendantCount > 0
+        ? `Delete "${page.title}" and its ${descendantCount} sub-page(s)?`
+        : `Delete "${page.title}"?`;
+    if (!window.confirm(message)) return;
+
+    const removesActive =
+      activePageId !== null &&
+      (activePageId === page.id || getAncestors(pages, activePageId).some((a) => a.id === page.id));
+    try {
+      await deletePage(page.id);
+      if (removesActive) {
+        router.push("/");
+      }
+    } catch (err) {
+      console.error("Failed to delete page:", err);
+    }
+  };
+
+  const handleMove = async (pageId: string, parentId: string | null) => {
+    try {
+      if ((await movePage(pageId, parentId)) && parentId) {
+        expand([parentId]);
+      }
+    } catch (err) {
+      console.error("Failed to move page:", err);
+    }
+  };
+
+  return (
+    <div
+      className={`${styles.tree} ${isRootDropTarget ? styles.dropTarget : ""}`}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        setIsRootDropTarget(true);
+      }}
+      onDragLeave={() => setIsRootDropTarget(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsRootDropTarget(false);
+        const draggedId = e.dataTransfer.getData(DRAG_TYPE);
+        if (draggedId) handleMove(draggedId, null);
+      }}
+    >
+      <div className={styles.header}>
+        <span>Pages</span>
+        <button className={styles.action} onClick={() => handleCreate(null)} title="New page">
+          <PlusIcon />
+        </button>
+      </div>
+      {!isLoaded ? null : pages.length === 0 ? (
+        <p className={styles.empty}>No pages yet</p>
+      ) : (
+        <ul className={styles.list}>
+          {getChildren(pages, null).map((page) => (
+            <PageNode
+              key={page.id}
+              page={page}
+              pages={pages}
+              depth={0}
+              activePageId={activePageId}
+              expanded={expanded}
+              onToggle={handleToggle}
+              onCreateChild={handleCreate}
+              onDelete={handleDelete}
+              onMove={handleMove}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
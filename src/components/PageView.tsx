@@ -0,0 +1,63 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import Editor, { type EditorHandle } from "./Editor";
+import TopBar from "./TopBar";
+import styles from "./PageView.module.css";
+import { updatePage, usePages, UNTITLED_PAGE } from "@/lib/pages";
+
+interface PageViewProps {
+  pageId: string;
+}
+
+export default function PageView({ pageId }: PageViewProps) {
+  const { pages, isLoaded } = usePages();
+  // Local draft while the title is being edited; otherwise follow the stored title
+  const [draftTitle, setDraftTitle] = useState<string | null>(null);
+  const [hasFlashcards, setHasFlashcards] = useState(false);
+  const editorRef = useRef<EditorHandle>(null);
+
+  const flushSave = useCallback(async () => {
+    await editorRef.current?.flushSave();
+  }, []);
+
+  const page = pages.find((p) => p.id === pageId);
+
+  if (!isLoaded) {
+    return null;
+  }
+
+  if (!page) {
+    return <p className={styles.notFound}>This page does not exist.</p>;
+  }
+
+  const handleTitleBlur = () => {
+    if (draftTitle === null) return;
+    const trimmed = draftTitle.trim() || UNTITLED_PAGE;
+    setDraftTitle(null);
+    if (trimmed !== page.title) {
+      updatePage(pageId, { title: trimmed }).catch((err) => {
+        console.error("Failed to rename page:", err);
+      });
+    }
+  };
+
+  return (
+    <div className={styles.page}>
+      <TopBar page={page} pages={pages} hasFlashcards={hasFlashcards} flushSave={flushSave} />
+      <input
+        className={styles.title}
+        value={draftTitle ?? page.title}
+        onChange={(e) => setDraftTitle(e.target.value)}
+        onBlur={handleTitleBlur}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.currentTarget.blur();
+          }
+        }}
+        placeholder={UNTITLED_PAGE}
+      />
+      <Editor ref={editorRef} pageId={pageId} onFlashcardsChange={setHasFlashcards} />
+    </div>
+  );
+}
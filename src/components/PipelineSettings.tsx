@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import styles from "./SettingsModal.module.css";
+import {
+  AI_ROLES,
+  OPENAI_PROVIDER_ID,
+  FRAME_MODES,
+  MAX_FRAME_BUDGET,
+  TRANSCRIPTION_BACKENDS,
+  type AIProvider,
+  type AIRole,
+  type AppSettings,
+  type FrameSettings,
+  type TranscriptionSettings,
+} from "@/lib/settings";
+import { readJson } from "@/lib/apiClient";
+
+const MODEL_FIELDS: { field: "chatModel" | "visionModel" | "transcriptionModel"; label: string; placeholder: string }[] = [
+  { field: "chatModel", label: "Chat model", placeholder: "e.g. llama3.1" },
+  { field: "visionModel", label: "Vision model", placeholder: "e.g. llava" },
+  { field: "transcriptionModel", label: "Transcription model", placeholder: "e.g. whisper-1" },
+];
+
+export default function PipelineSettings() {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved">("idle");
+
+  useEffect(() => {
+    fetch("/api/settings")
+      .then((res) => res.json())
+      .then((data) => setSettings(data.settings))
+      .catch((err) => {
+        console.error("Failed to load settings:", err);
+      });
+  }, []);
+
+  const updateSettings = (update: (current: AppSettings) => AppSettings) => {
+    setSettings((current) => (current ? update(current) : current));
+    setSaveStatus("idle");
+  };
+
+  const updateProvider = (id: string, changes: Partial<AIProvider>) => {
+    updateSettings((current) => ({
+      ...current,
+      providers: current.providers.map((provider) =>
+        provider.id === id ? { ...provider, ...changes } : provider
+      ),
+    }));
+  };
+
+  const addProvider = () => {
+    updateSettings((current) => ({
+      ...current,
+      providers: [
+        ...current.providers,
+        {
+          id: crypto.randomUUID(),
+          name: "Local server",
+          baseUrl: "http://localhost:11434/v1",
+          apiKey: "",
+          chatModel: "",
+          visionModel: "",
+          transcriptionModel: "",
+        },
+      ],
+    }));
+  };
+
+  // Roles using a removed provider go back to OpenAI
+  const removeProvider = (id: string) => {
+    updateSettings((current) => ({
+      ...current,
+      providers: current.providers.filter((provider) => provider.id !== id),
+      roles: Object.fromEntries(
+        Object.entries(current.roles).map(([role, providerId]) => [
+          role,
+          providerId === id ? OPENAI_PROVIDER_ID : providerId,
+        ])
+      ) as Record<AIRole, string>,
+    }));
+  };
+
+  const setRoleProvider = (role: AIRole, providerId: string) => {
+    updateSettings((current) => ({
+      ...current,
+      roles: { ...current.roles, [role]: providerId },
+    }));
+  };
+
+  const updateTranscription = (changes: Partial<TranscriptionSettings>) => {
+    updateSettings((current) => ({
+      ...current,
+      transcription: { ...current.transcription, ...changes },
+    }));
+  };
+
+  const updateFrames = (changes: Partial<FrameSettings>) => {
+    updateSettings((current) => ({
+      ...current,
+      frames: { ...current.frames, ...changes },
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setSaveStatus("saving");
+    try {
+      const data = await readJson<{ settings: AppSettings }>(
+        await fetch("/api/settings", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ settings }),
+        })
+      );
+      setSettings(data.settings);
+      setSaveStatus("saved");
+      setTimeout(() => setSaveStatus("idle"), 2000);
+    } catch (err) {
+      console.error("Failed to save settings:", err);
+      setSaveStatus("idle");
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <span className={styles.label}>AI providers</span>
+      <p className={styles.description}>
+        Each step can use OpenAI or any OpenAI-compatible server, such as Ollama, vLLM or LocalAI.
+        Transcription can also run through a local whisper.cpp or faster-whisper install.
+      </p>
+
+      {!settings ? (
+        <p className={styles.description}>Loading...</p>
+      ) : (
+        <>
+          <div className={styles.roles}>
+            <label className={styles.fieldRow}>
+              <span className={styles.fieldLabel}>Transcribe with</span>
+              <select
+                className={styles.input}
+                value={settings.transcription.backend}
+                onChange={(e) =>
+                  updateTranscription({ backend: e.target.value as TranscriptionSettings["backend"] })
+                }
+              >
+                {TRANSCRIPTION_BACKENDS.map(({ backend, label }) => (
+                  <option key={backend} value={backend}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {settings.transcription.backend !== "api" && (
+              <>
+                <label className={styles.fieldRow}>
+                  <span className={styles.fieldLabel}>Binary</span>
+                  <input
+                    className={styles.input}
+                    value={settings.transcription.binaryPath}
+                    onChange={(e) => updateTranscription({ binaryPath: e.target.value })}
+                    placeholder={
+                      TRANSCRIPTION_BACKENDS.find((o) => o.backend === settings.transcription.backend)
+                        ?.defaultBinary
+                    }
+                  />
+                </label>
+                <label className={styles.fieldRow}>
+                  <span className={styles.fieldLabel}>Model</span>
+                  <input
+                    className={styles.input}
+                    value={settings.transcription.model}
+                    onChange={(e) => updateTranscription({ model: e.target.value })}
+                    placeholder={
+                      settings.transcription.backend === "whisper.cpp"
+                        ? "/path/to/ggml-base.en.bin"
+                        : "e.g. small, or a model directory"
+                    }
+                  />
+                </label>
+              </>
+            )}
+            {AI_ROLES.filter(
+              ({ role }) => role !== "transcription" || settings.transcription.backend === "api"
+            ).map(({ role, label }) => (
+              <label key={role} className={styles.fieldRow}>
+                <span className={styles.fieldLabel}>{label}</span>
+                <select
+                  className={styles.input}
+                  value={settings.roles[role]}
+                  onChange={(e) => setRoleProvider(role, e.target.value)}
+                >
+                  {settings.providers.map((provider) => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className={styles.roles}>
+            <label className={styles.fieldRow}>
+              <span className={styles.fieldLabel}>Frames</span>
+              <select
+                className={styles.input}
+                value={settings.frames.mode}
+                onChange={(e) => updateFrames({ mode: e.target.value as FrameSettings["mode"] })}
+              >
+                {FRAME_MODES.map(({ mode, label }) => (
+                  <option key={mode} value={mode}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.fieldRow}>
+              <span className={styles.fieldLabel}>Frame budget</span>
+              <input
+                type="number"
+                className={styles.input}
+                min={1}
+                max={MAX_FRAME_BUDGET}
+                value={settings.frames.maxFrames}
+                onChange={(e) => updateFrames({ maxFrames: Number(e.target.value) })}
+              />
+            </label>
+          </div>
+
+          {settings.providers.map((provider) => {
+            const isOpenAI = provider.id === OPENAI_PROVIDER_ID;
+            return (
+              <div key={provider.id} className={styles.providerCard}>
+                <div className={styles.inputGroup}>
+                  <input
+                    className={styles.input}
+                    value={provider.name}
+                    onChange={(e) => updateProvider(provider.id, { name: e.target.value })}
+                    placeholder="Name"
+                    aria-label="Provider name"
+                  />
+                  {!isOpenAI && (
+                    <button className={styles.clearButton} onClick={() => removeProvider(provider.id)}>
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <label className={styles.fieldRow}>
+                  <span className={styles.fieldLabel}>Base URL</span>
+                  <input
+                    className={styles.input}
+                    value={provider.baseUrl}
+                    onChange={(e) => updateProvider(provider.id, { baseUrl: e.target.value })}
+                    placeholder="https://api.openai.com/v1"
+                  />
+                </label>
+                <label className={styles.fieldRow}>
+                  <span className={styles.fieldLabel}>API key</span>
+                  <input
+                    type="password"
+                    className={styles.input}
+                    value={provider.apiKey}
+                    onChange={(e) => updateProvider(provider.id, { apiKey: e.target.value })}
+                    placeholder={isOpenAI ? "Uses the OpenAI API key above" : "Optional for local servers"}
+                  />
+                </label>
+                {MODEL_FIELDS.map(({ field, label, placeholder }) => (
+                  <label key={field} className={styles.fieldRow}>
+                    <span className={styles.fieldLabel}>{label}</span>
+                    <input
+                      className={styles.input}
+                      value={provider[field]}
+                      onChange={(e) => updateProvider(provider.id, { [field]: e.target.value })}
+                      placeholder={placeholder}
+                    />
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+
+          <div className={styles.buttonGroup}>
+            <button
+              className={styles.saveButton}
+              onClick={handleSave}
+              disabled={saveStatus === "saving"}
+            >
+              {saveStatus === "saving" ? "Saving..." : saveStatus === "saved" ? "Saved!" : "Save"}
+            </button>
+            <button className={styles.clearButton} onClick={addProvider}>
+              Add provider
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import styles from "./SettingsModal.module.css";
+import { refreshPages } from "@/lib/pages";
+import {
+  DEFAULT_MEDIA_OPTIONS,
+  isJobActive,
+  VIDEO_QUALITIES,
+  type Job,
+  type SummaryMode,
+  type VideoQuality,
+} from "@/lib/jobs";
+import { DEFAULT_TEMPLATE_ID, fetchTemplates, type PromptTemplate } from "@/lib/templates";
+import {
+  fetchPlaylistProgress,
+  importPlaylist,
+  type PlaylistProgress,
+  type PlaylistVideo,
+} from "@/lib/playlists";
+import { getYouTubePlaylistId } from "@/lib/youtubeUrl";
+
+interface PlaylistImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// How often the progress view re-fetches the import's jobs
+const PROGRESS_POLL_INTERVAL_MS = 2000;
+
+const CloseIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="18" y1="6" x2="6" y2="18" />
+    <line x1="6" y1="6" x2="18" y2="18" />
+  </svg>
+);
+
+function describeJob(label: string, job: Job | undefined): string {
+  if (!job) return `${label}: unknown`;
+  if (job.status === "running" && job.progress?.totalBytes) {
+    const percent = Math.round((job.progress.receivedBytes / job.progress.totalBytes) * 100);
+    return `${label}: ${percent}%`;
+  }
+  return `${label}: ${job.status}`;
+}
+
+// A video is done once its download and (if queued) summary have finished
+function isVideoDone(video: PlaylistVideo, jobs: Record<string, Job>): boolean {
+  return [video.downloadJobId, video.summaryJobId]
+    .filter((jobId): jobId is string => jobId !== null)
+    .every((jobId) => !jobs[jobId] || !isJobActive(jobs[jobId]));
+}
+
+export default function PlaylistImportModal({ isOpen, onClose }: PlaylistImportModalProps) {
+  const [url, setUrl] = useState("");
+  const [quality, setQuality] = useState<VideoQuality>(DEFAULT_MEDIA_OPTIONS.quality);
+  const [audioOnly, setAudioOnly] = useState(DEFAULT_MEDIA_OPTIONS.audioOnly);
+  const [summarize, setSummarize] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [summaryMode, setSummaryMode] = useState<SummaryMode>("overview");
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [added, setAdded] = useState<number | null>(null);
+  const [progress, setProgress] = useState<PlaylistProgress | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchTemplates()
+      .then(setTemplates)
+      .catch((err) => {
+        console.error("Failed to load prompt templates:", err);
+      });
+  }, [isOpen]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("keydown", handleEscape);
+      document.body.style.overflow = "hidden";
+    }
+
+    return () => {
+      document.removeEventListener("keydown", handleEscape);
+      document.body.style.overflow = "";
+    };
+  }, [isOpen, onClose]);
+
+  // Follow the import's jobs until they have all finished
+  const playlistId = progress?.playlist.playlistId;
+  const hasActiveJobs = progress ? Object.values(progress.jobs).some(isJobActive) : false;
+  useEffect(() => {
+    if (!isOpen || !playlistId || !hasActiveJobs) return;
+    const interval = setInterval(() => {
+      fetchPlaylistProgress(playlistId)
+        .then(setProgress)
+        .catch((err) => {
+          console.error("Failed to load playlist progress:", err);
+        });
+    }, PROGRESS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOpen, playlistId, hasActiveJobs]);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await importPlaylist(
+        url,
+        { quality, audioOnly },
+        summarize ? { templateId, mode: summaryMode } : null
+      );
+      setAdded(result.added);
+      setProgress(await fetchPlaylistProgress(result.playlist.playlistId));
+      await refreshPages();
+    } catch (err) {
+      console.error("Failed to import playlist:", err);
+      setError(err instanceof Error ? err.message : "Failed to import playlist");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const videos = progress?.playlist.videos ?? [];
+  const doneCount = progress ? videos.filter((video) => isVideoDone(video, progress.jobs)).length : 0;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Import playlist</h2>
+          <button className={styles.closeButton} onClick={onClose}>
+            <CloseIcon />
+          </button>
+        </div>
+        <div className={styles.content}>
+          <div className={styles.section}>
+            <label className={styles.label} htmlFor="playlist-url">
+              Playlist URL
+            </label>
+            <p className={styles.description}>
+              Creates a page for the playlist with a page per video, and queues their downloads in
+              playlist order. Importing a playlist again only adds the videos that are new.
+            </p>
+            <input
+              id="playlist-url"
+              className={styles.input}
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://www.youtube.com/playlist?list=..."
+            />
+            <div className={styles.fieldRow}>
+              <span className={styles.fieldLabel}>Quality</span>
+              <select
+                className={styles.input}
+                value={quality}
+                disabled={audioOnly}
+                onChange={(e) => setQuality(e.target.value as VideoQuality)}
+              >
+                {VIDEO_QUALITIES.map((value) => (
+                  <option key={value} value={value}>
+                    {value === "best" ? "Best available" : value}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className={styles.fieldRow}>
+              <input
+                type="checkbox"
+                checked={audioOnly}
+                onChange={(e) => setAudioOnly(e.target.checked)}
+              />
+              Audio only
+            </label>
+            <label className={styles.fieldRow}>
+              <input
+                type="checkbox"
+                checked={summarize}
+                onChange={(e) => setSummarize(e.target.checked)}
+              />
+              Summarize each video
+            </label>
+            {summarize && (
+              <div className={styles.fieldRow}>
+                <span className={styles.fieldLabel}>Template</span>
+                <select
+                  className={styles.input}
+                  value={templateId}
+                  onChange={(e) => setTemplateId(e.target.value)}
+                >
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {summarize && (
+              <label className={styles.fieldRow}>
+                <input
+                  type="checkbox"
+                  checked={summaryMode === "chapters"}
+                  onChange={(e) => setSummaryMode(e.target.checked ? "chapters" : "overview")}
+                />
+                By chapter
+              </label>
+            )}
+            {error && <p className={styles.error}>{error}</p>}
+            <div className={styles.buttonGroup}>
+              <button
+                className={styles.saveButton}
+                onClick={handleImport}
+                disabled={!getYouTubePlaylistId(url) || isImporting}
+              >
+                {isImporting ? "Importing..." : "Import"}
+              </button>
+            </div>
+          </div>
+
+          {progress && (
+            <>
+              <hr className={styles.sectionDivider} />
+              <div className={styles.section}>
+                <Link href={`/notes/${progress.playlist.pageId}`} className={styles.label} onClick={onClose}>
+                  {progress.playlist.title}
+                </Link>
+                <p className={styles.description}>
+                  {added === 0 ? "No new videos. " : `Added ${added} video${added === 1 ? "" : "s"}. `}
+                  {doneCount} of {videos.length} finished.
+                </p>
+                <div className={styles.progressBar}>
+                  <div
+                    className={styles.progressFill}
+                    style={{ width: `${videos.length ? (doneCount / videos.length) * 100 : 0}%` }}
+                  />
+                </div>
+                <ol className={styles.videoList}>
+                  {videos.map((video) => (
+                    <li key={video.videoId}>
+                      <Link href={`/notes/${video.pageId}`} onClick={onClose}>
+                        {video.title || video.videoId}
+                      </Link>
+                      <span className={styles.description}>
+                        {" "}
+                        {describeJob("Download", progress.jobs[video.downloadJobId])}
+                        {video.summaryJobId &&
+                          ` · ${describeJob("Summary", progress.jobs[video.summaryJobId])}`}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
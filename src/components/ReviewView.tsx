@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import styles from "./ReviewView.module.css";
+import { formatTime } from "@/lib/time";
+import { isLocalVideoId } from "@/lib/localVideos";
+import { fetchReviewCards, submitReview } from "@/lib/review";
+import {
+  isCardDue,
+  REVIEW_GRADES,
+  scheduleReview,
+  type ReviewCard,
+  type ReviewGrade,
+} from "@/lib/spacedRepetition";
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: "Again",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+};
+
+// YouTube videos open on YouTube; uploaded ones straight from the videos
+// folder, using a media fragment for the start time
+function getVideoUrl(card: ReviewCard): string {
+  const seconds = Math.floor(card.time);
+  return isLocalVideoId(card.videoId)
+    ? `/videos/${card.videoId}.mp4#t=${seconds}`
+    : `https://www.youtube.com/watch?v=${card.videoId}&t=${seconds}s`;
+}
+
+function formatInterval(days: number): string {
+  return days === 1 ? "1 day" : `${days} days`;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export default function ReviewView() {
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  // Ids of the cards left in this session; forgotten cards go to the back
+  const [queue, setQueue] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  useEffect(() => {
+    fetchReviewCards()
+      .then((loaded) => {
+        setCards(loaded);
+        setQueue(loaded.filter((card) => isCardDue(card)).map((card) => card.id));
+      })
+      .catch((err) => console.error("Failed to load flashcards:", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const current = cards.find((card) => card.id === queue[0]);
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current) return;
+    setIsSubmitting(true);
+    try {
+      const state = await submitReview(current.id, grade);
+      setCards((prev) => prev.map((card) => (card.id === current.id ? { ...card, state } : card)));
+      setQueue((prev) => (grade === "again" ? [...prev.slice(1), prev[0]] : prev.slice(1)));
+      setReviewedCount((count) => count + 1);
+      setIsRevealed(false);
+    } catch (err) {
+      console.error("Failed to record review:", err);
+      alert("Failed to save review");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className={styles.empty}>Loading flashcards...</p>;
+  }
+
+  if (!current) {
+    const upcoming = cards
+      .map((card) => card.state?.due)
+      .filter((due): due is number => due !== undefined)
+      .sort((a, b) => a - b)[0];
+
+    return (
+      <div className={styles.review}>
+        <h2 className={styles.heading}>Review</h2>
+        {cards.length === 0 ? (
+          <p className={styles.empty}>
+            No flashcards yet. Generate them from a video, or add one with /flashcard in a note.
+          </p>
+        ) : (
+          <p className={styles.empty}>
+            {reviewedCount > 0 ? `Done! You reviewed ${reviewedCount} card${reviewedCount === 1 ? "" : "s"}. ` : "No cards are due. "}
+            {upcoming !== undefined && `The next card is due ${formatDate(upcoming)}.`}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.review}>
+      <div className={styles.header}>
+        <h2 className={styles.heading}>Review</h2>
+        <span className={styles.remaining}>{queue.length} left</span>
+      </div>
+
+      <div className={styles.card}>
+        <div className={styles.side}>Question</div>
+        <p className={styles.text}>{current.front}</p>
+        {isRevealed && (
+          <>
+            <div className={styles.side}>Answer</div>
+            <p className={styles.text}>{current.back}</p>
+          </>
+        )}
+      </div>
+
+      <div className={styles.source}>
+        <span>
+          From <Link href={`/notes/${current.pageId}`}>{current.pageTitle}</Link>
+        </span>
+        {current.videoId && (
+          <a href={getVideoUrl(current)} target="_blank" rel="noopener noreferrer">
+            Open video at {formatTime(current.time)}
+          </a>
+        )}
+      </div>
+
+      {isRevealed ? (
+        <div className={styles.grades}>
+          {REVIEW_GRADES.map((grade) => (
+            <button
+              key={grade}
+              className={`${styles.gradeButton} ${styles[grade]}`}
+              onClick={() => handleGrade(grade)}
+              disabled={isSubmitting}
+            >
+              {GRADE_LABELS[grade]}
+              <span className={styles.interval}>
+                {formatInterval(scheduleReview(current.state, grade).interval)}
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <button className={styles.revealButton} onClick={() => setIsRevealed(true)}>
+          Show answer
+        </button>
+      )}
+    </div>
+  );
+}
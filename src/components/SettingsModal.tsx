@@ -2,6 +2,8 @@
 
 import { useEffect, useState } from "react";
 import styles from "./SettingsModal.module.css";
+import PipelineSettings from "./PipelineSettings";
+import TemplateSettings from "./TemplateSettings";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -152,6 +154,10 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
               </button>
             </div>
           </div>
+          <hr className={styles.sectionDivider} />
+          <PipelineSettings />
+          <hr className={styles.sectionDivider} />
+          <TemplateSettings />
         </div>
       </div>
     </div>
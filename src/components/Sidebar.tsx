@@ -5,12 +5,17 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import styles from "./Sidebar.module.css";
 import SettingsModal from "./SettingsModal";
+import PlaylistImportModal from "./PlaylistImportModal";
+import PageTree from "./PageTree";
+import { useDueCount } from "@/lib/review";
 
 interface NavItem {
   label: string;
   href?: string;
   icon: React.ReactNode;
   onClick?: () => void;
+  // Count shown at the end of the item, hidden when zero
+  badge?: number | null;
 }
 
 const HomeIcon = () => (
@@ -20,13 +25,19 @@ const HomeIcon = () => (
   </svg>
 );
 
-const NotesIcon = () => (
+const ReviewIcon = () => (
   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
-    <polyline points="14 2 14 8 20 8" />
-    <line x1="16" y1="13" x2="8" y2="13" />
-    <line x1="16" y1="17" x2="8" y2="17" />
-    <polyline points="10 9 9 9 8 9" />
+    <rect x="2" y="6" width="16" height="14" rx="2" />
+    <path d="M6 2h14a2 2 0 0 1 2 2v12" />
+  </svg>
+);
+
+const PlaylistIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="3" y1="6" x2="15" y2="6" />
+    <line x1="3" y1="12" x2="15" y2="12" />
+    <line x1="3" y1="18" x2="11" y2="18" />
+    <polygon points="16 14 22 17.5 16 21 16 14" />
   </svg>
 );
 
@@ -40,50 +51,60 @@ const SettingsIcon = () => (
 export default function Sidebar() {
   const pathname = usePathname();
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [playlistImportOpen, setPlaylistImportOpen] = useState(false);
+  const dueCount = useDueCount();
 
   const navItems: NavItem[] = [
     { label: "Home", href: "/", icon: <HomeIcon /> },
-    { label: "Notes", href: "/notes", icon: <NotesIcon /> },
+    { label: "Review", href: "/review", icon: <ReviewIcon />, badge: dueCount },
+    { label: "Import playlist", icon: <PlaylistIcon />, onClick: () => setPlaylistImportOpen(true) },
+  ];
+
+  const footerItems: NavItem[] = [
     { label: "Settings", icon: <SettingsIcon />, onClick: () => setSettingsOpen(true) },
   ];
 
+  const renderNavItem = (item: NavItem) => {
+    const isActive = item.href ? pathname === item.href : false;
+
+    if (item.href) {
+      return (
+        <Link
+          key={item.label}
+          href={item.href}
+          className={`${styles.navItem} ${isActive ? styles.active : ""}`}
+        >
+          {item.icon}
+          <span>{item.label}</span>
+          {item.badge ? <span className={styles.badge}>{item.badge}</span> : null}
+        </Link>
+      );
+    }
+
+    return (
+      <button
+        key={item.label}
+        className={styles.navItem}
+        onClick={item.onClick}
+      >
+        {item.icon}
+        <span>{item.label}</span>
+      </button>
+    );
+  };
+
   return (
     <>
       <aside className={styles.sidebar}>
         <div className={styles.logo}>
           <span className={styles.logoText}>vnotes</span>
         </div>
-        <nav className={styles.nav}>
-          {navItems.map((item) => {
-            const isActive = item.href ? pathname === item.href : false;
-
-            if (item.href) {
-              return (
-                <Link
-                  key={item.label}
-                  href={item.href}
-                  className={`${styles.navItem} ${isActive ? styles.active : ""}`}
-                >
-                  {item.icon}
-                  <span>{item.label}</span>
-                </Link>
-              );
-            }
-
-            return (
-              <button
-                key={item.label}
-                className={styles.navItem}
-                onClick={item.onClick}
-              >
-                {item.icon}
-                <span>{item.label}</span>
-              </button>
-            );
-          })}
-        </nav>
+        <nav className={styles.nav}>{navItems.map(renderNavItem)}</nav>
+        <PageTree />
+        <nav className={`${styles.nav} ${styles.footer}`}>{footerItems.map(renderNavItem)}</nav>
       </aside>
       <SettingsModal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
+      <PlaylistImportModal isOpen={playlistImportOpen} onClose={() => setPlaylistImportOpen(false)} />
     </>
   );
 }
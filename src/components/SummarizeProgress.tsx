@@ -0,0 +1,72 @@
+"use client";
+
+import styles from "./SummarizeProgress.module.css";
+import { SUMMARIZE_STAGES, type SummarizeStreamEvent } from "@/lib/summarizeProgress";
+
+interface SummarizeProgressProps {
+  // Stage events reported so far by the summarize job
+  events: SummarizeStreamEvent[];
+  // Still waiting for a free slot in the job queue
+  queued?: boolean;
+  onCancel?: () => void;
+}
+
+function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export default function SummarizeProgress({ events, queued, onCancel }: SummarizeProgressProps) {
+  const lastEvent = events[events.length - 1];
+  const lastFrame = [...events].reverse().find((event) => event.type === "frame");
+  const lastChunk = [...events].reverse().find((event) => event.type === "chunk");
+  const lastChapter = [...events].reverse().find((event) => event.type === "chapter");
+
+  return (
+    <div className={styles.progress}>
+      <div className={styles.header}>
+        <span>{queued ? "Waiting in queue" : "Summarizing"}</span>
+        {lastEvent && <span className={styles.elapsed}>{formatDuration(lastEvent.elapsedMs)}</span>}
+        {onCancel && (
+          <button className={styles.cancel} onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+      </div>
+      <ol className={styles.stages}>
+        {SUMMARIZE_STAGES.map(({ stage, label }) => {
+          let started = false;
+          let skipped = false;
+          let completed: { cached: boolean; durationMs: number } | null = null;
+          for (const event of events) {
+            if (event.type !== "stage" || event.stage !== stage) continue;
+            if (event.status === "started") started = true;
+            else if (event.status === "skipped") skipped = true;
+            else completed = { cached: event.cached, durationMs: event.durationMs };
+          }
+          const state = completed ? "done" : skipped ? "skipped" : started ? "running" : "pending";
+
+          return (
+            <li key={stage} className={`${styles.stage} ${styles[state]}`}>
+              <span className={styles.icon}>{completed ? "✓" : skipped ? "–" : started ? "…" : "○"}</span>
+              <span className={styles.label}>
+                {label}
+                {stage === "frames" && state === "running" && lastFrame?.type === "frame" && (
+                  <> ({lastFrame.index + 1}/{lastFrame.total})</>
+                )}
+                {stage === "transcript" && state === "running" && lastChunk?.type === "chunk" && (
+                  <> ({lastChunk.completed}/{lastChunk.total} chunks)</>
+                )}
+                {stage === "finalSummary" && state === "running" && lastChapter?.type === "chapter" && (
+                  <> ({lastChapter.completed}/{lastChapter.total} chapters)</>
+                )}
+              </span>
+              {skipped && <span className={styles.duration}>skipped</span>}
+              {completed?.cached && <span className={styles.cached}>cached</span>}
+              {completed && <span className={styles.duration}>{formatDuration(completed.durationMs)}</span>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import styles from "./SettingsModal.module.css";
+import {
+  DEFAULT_TEMPLATE_ID,
+  TEMPLATE_VARIABLES,
+  type PromptTemplate,
+} from "@/lib/templates";
+import { readJson } from "@/lib/apiClient";
+
+const PROMPT_FIELDS: { field: "visualPrompt" | "audioPrompt" | "finalPrompt"; label: string }[] = [
+  { field: "visualPrompt", label: "Visual prompt (sent with the frames)" },
+  { field: "audioPrompt", label: "Transcript prompt" },
+  { field: "finalPrompt", label: "Final summary prompt" },
+];
+
+export default function TemplateSettings() {
+  const [templates, setTemplates] = useState<PromptTemplate[] | null>(null);
+  const [selectedId, setSelectedId] = useState(DEFAULT_TEMPLATE_ID);
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved">("idle");
+
+  useEffect(() => {
+    fetch("/api/templates")
+      .then((res) => res.json())
+      .then((data) => setTemplates(data.templates))
+      .catch((err) => {
+        console.error("Failed to load templates:", err);
+      });
+  }, []);
+
+  const selected = templates?.find((template) => template.id === selectedId) ?? templates?.[0];
+
+  const updateTemplates = (update: (current: PromptTemplate[]) => PromptTemplate[]) => {
+    setTemplates((current) => (current ? update(current) : current));
+    setSaveStatus("idle");
+  };
+
+  const updateSelected = (changes: Partial<PromptTemplate>) => {
+    if (!selected || selected.builtIn) return;
+    updateTemplates((current) =>
+      current.map((template) => (template.id === selected.id ? { ...template, ...changes } : template))
+    );
+  };
+
+  // New templates start as a copy of the selected one
+  const duplicateSelected = () => {
+    if (!selected) return;
+    const copy: PromptTemplate = {
+      ...selected,
+      id: crypto.randomUUID(),
+      name: `${selected.name} (copy)`,
+      builtIn: false,
+    };
+    updateTemplates((current) => [...current, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const deleteSelected = () => {
+    if (!selected || selected.builtIn) return;
+    if (!confirm(`Delete the "${selected.name}" template?`)) return;
+    updateTemplates((current) => current.filter((template) => template.id !== selected.id));
+    setSelectedId(DEFAULT_TEMPLATE_ID);
+  };
+
+  const handleSave = async () => {
+    if (!templates) return;
+    setSaveStatus("saving");
+    try {
+      const data = await readJson<{ templates: PromptTemplate[] }>(
+        await fetch("/api/templates", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ templates: templates.filter((template) => !template.builtIn) }),
+        })
+      );
+      setTemplates(data.templates);
+      setSaveStatus("saved");
+      setTimeout(() => setSaveStatus("idle"), 2000);
+    } catch (err) {
+      console.error("Failed to save templates:", err);
+      setSaveStatus("idle");
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <span className={styles.label}>Summary templates</span>
+      <p className={`${styles.description} ${styles.variables}`}>
+        Templates shape what Summarize writes. Prompts can use{" "}
+        {TEMPLATE_VARIABLES.map(({ name, description }, index) => (
+          <span key={name}>
+            {index > 0 && ", "}
+            <code title={description}>{`{{${name}}}`}</code>
+          </span>
+        ))}
+        . Built-in templates can be duplicated and edited as your own.
+      </p>
+
+      {!templates || !selected ? (
+        <p className={styles.description}>Loading...</p>
+      ) : (
+        <>
+          <div className={styles.inputGroup}>
+            <select
+              className={styles.input}
+              value={selected.id}
+              onChange={(e) => setSelectedId(e.target.value)}
+            >
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                  {template.builtIn ? " (built-in)" : ""}
+                </option>
+              ))}
+            </select>
+            <button className={styles.clearButton} onClick={duplicateSelected}>
+              Duplicate
+            </button>
+            {!selected.builtIn && (
+              <button className={styles.clearButton} onClick={deleteSelected}>
+                Delete
+              </button>
+            )}
+          </div>
+
+          <label className={styles.fieldRow}>
+            <span className={styles.fieldLabel}>Name</span>
+            <input
+              className={styles.input}
+              value={selected.name}
+              onChange={(e) => updateSelected({ name: e.target.value })}
+              readOnly={selected.builtIn}
+            />
+          </label>
+          <label className={styles.fieldRow}>
+            <span className={styles.fieldLabel}>Description</span>
+            <input
+              className={styles.input}
+              value={selected.description}
+              onChange={(e) => updateSelected({ description: e.target.value })}
+              readOnly={selected.builtIn}
+            />
+          </label>
+          {PROMPT_FIELDS.map(({ field, label }) => (
+            <label key={field} className={styles.fieldColumn}>
+              <span className={styles.fieldLabel}>{label}</span>
+              <textarea
+                className={styles.textarea}
+                value={selected[field]}
+                onChange={(e) => updateSelected({ [field]: e.target.value })}
+                readOnly={selected.builtIn}
+              />
+            </label>
+          ))}
+
+          <div className={styles.buttonGroup}>
+            <button
+              className={styles.saveButton}
+              onClick={handleSave}
+              disabled={saveStatus === "saving"}
+            >
+              {saveStatus === "saving" ? "Saving..." : saveStatus === "saved" ? "Saved!" : "Save templates"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import Link from "next/link";
+import styles from "./TopBar.module.css";
+import { getAncestors, getChildren, UNTITLED_PAGE, type Page } from "@/lib/pages";
+
+interface TopBarProps {
+  page: Page;
+  pages: Page[];
+  // Whether the page has flashcards to export
+  hasFlashcards: boolean;
+  // Writes out unsaved edits; the export reads the saved page
+  flushSave: () => Promise<void>;
+}
+
+export default function TopBar({ page, pages, hasFlashcards, flushSave }: TopBarProps) {
+  const ancestors = getAncestors(pages, page.id);
+  const children = getChildren(pages, page.id);
+
+  return (
+    <div className={styles.topBar}>
+      <nav className={styles.breadcrumbs} aria-label="Page hierarchy">
+        {ancestors.map((ancestor) => (
+          <span key={ancestor.id} className={styles.crumb}>
+            <Link href={`/notes/${ancestor.id}`} className={styles.link}>
+              {ancestor.title || UNTITLED_PAGE}
+            </Link>
+            <span className={styles.separator}>/</span>
+          </span>
+        ))}
+        <span className={styles.current}>{page.title || UNTITLED_PAGE}</span>
+        {hasFlashcards && (
+          // next.config sets trailingSlash, so the slashed URL is served without a 308
+          <a
+            href={`/api/notes/${page.id}/flashcards/`}
+            className={styles.action}
+            title="Download this page's flashcards as a file Anki can import"
+            onClick={async (e) => {
+              e.preventDefault();
+              const href = e.currentTarget.href;
+              await flushSave();
+              window.location.assign(href);
+            }}
+          >
+            Export flashcards
+          </a>
+        )}
+      </nav>
+      {children.length > 0 && (
+        <div className={styles.children}>
+          <span className={styles.childrenLabel}>Sub-pages:</span>
+          {children.map((child) => (
+            <Link key={child.id} href={`/notes/${child.id}`} className={styles.childLink}>
+              {child.title || UNTITLED_PAGE}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { RefObject, useEffect, useRef, useState } from "react";
+import styles from "./TranscriptPanel.module.css";
+import { findSegmentIndex, type Transcript } from "@/lib/transcript";
+import { formatTime } from "@/lib/time";
+
+interface TranscriptPanelProps {
+  videoId: string;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  // Bump to re-fetch, e.g. after a summarize run produced the transcript
+  refreshKey: number;
+}
+
+export default function TranscriptPanel({ videoId, videoRef, refreshKey }: TranscriptPanelProps) {
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "missing">("loading");
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listRef = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/transcripts/${videoId}.json`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: Transcript | null) => {
+        if (cancelled) return;
+        setTranscript(data);
+        setStatus(data ? "ready" : "missing");
+      })
+      .catch(() => {
+        if (!cancelled) setStatus("missing");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, refreshKey]);
+
+  // Follow playback position
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !transcript) return;
+
+    const handleTimeUpdate = () => {
+      setActiveIndex(findSegmentIndex(transcript.segments, video.currentTime));
+    };
+    handleTimeUpdate();
+    video.addEventListener("timeupdate", handleTimeUpdate);
+    video.addEventListener("seeked", handleTimeUpdate);
+
+    return () => {
+      video.removeEventListener("timeupdate", handleTimeUpdate);
+      video.removeEventListener("seeked", handleTimeUpdate);
+    };
+  }, [videoRef, transcript]);
+
+  // Keep the active line visible without scrolling the whole page
+  useEffect(() => {
+    const list = listRef.current;
+    const item = list?.children[activeIndex] as HTMLElement | undefined;
+    if (!list || !item) return;
+
+    if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: item.offsetTop - list.clientHeight / 3, behavior: "smooth" });
+    }
+  }, [activeIndex]);
+
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    if (video) {
+      video.currentTime = time;
+    }
+  };
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.header}>Transcript</div>
+      {status === "loading" && <p className={styles.message}>Loading transcript...</p>}
+      {status === "missing" && (
+        <p className={styles.message}>No transcript yet. Run Summarize to transcribe this video.</p>
+      )}
+      {status === "ready" && transcript && transcript.segments.length === 0 && (
+        <p className={styles.message}>{transcript.text}</p>
+      )}
+      {status === "ready" && transcript && transcript.segments.length > 0 && (
+        <ol ref={listRef} className={styles.segments}>
+          {transcript.segments.map((segment, index) => (
+            <li
+              key={index}
+              className={`${styles.segment} ${index === activeIndex ? styles.active : ""}`}
+              onClick={() => seekTo(segment.start)}
+            >
+              <span className={styles.time}>{formatTime(segment.start)}</span>
+              <span>{segment.text}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { createReactInlineContentSpec } from "@blocknote/react";
+import { formatTime } from "@/lib/time";
+import { isLocalVideoId } from "@/lib/localVideos";
+import { seekVideo } from "@/lib/videoPlayers";
+
+// Inline chip pointing at a moment in an embedded video
+export const VideoTimestamp = createReactInlineContentSpec(
+    {
+        type: "videoTimestamp",
+        propSchema: {
+            videoId: { default: "" },
+            time: { default: 0 },
+        },
+        content: "none",
+    },
+    {
+        render: ({ inlineContent }) => {
+            const { videoId, time } = inlineContent.props;
+            return (
+                <span
+                    role="button"
+                    title="Jump to this moment in the video"
+                    onClick={() => {
+                        if (!seekVideo(videoId, time)) {
+                            console.warn(`No player for video ${videoId} on this page`);
+                        }
+                    }}
+                    style={{
+                        display: "inline-block",
+                        padding: "0 6px",
+                        background: "#dbeafe",
+                        color: "#1d4ed8",
+                        borderRadius: "4px",
+                        fontSize: "0.9em",
+                        fontVariantNumeric: "tabular-nums",
+                        cursor: "pointer",
+                    }}
+                >
+                    ▶ {formatTime(time)}
+                </span>
+            );
+        },
+        // Exported/copied HTML links to the moment on YouTube (uploaded videos
+        // have nowhere to link, so just the time) and keeps the data
+        // attributes so it can be pasted back as a timestamp
+        toExternalHTML: ({ inlineContent }) => {
+            const { videoId, time } = inlineContent.props;
+            if (isLocalVideoId(videoId)) {
+                return (
+                    <span data-video-id={videoId} data-video-time={time}>
+                        ({formatTime(time)})
+                    </span>
+                );
+            }
+            return (
+                <a
+                    href={`https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(time)}s`}
+                    data-video-id={videoId}
+                    data-video-time={time}
+                >
+                    {formatTime(time)}
+                </a>
+            );
+        },
+        parse: (element) => {
+            const videoId = element.getAttribute("data-video-id");
+            const time = element.getAttribute("data-video-time");
+            if (!videoId || time === null) return undefined;
+            return { videoId, time: parseFloat(time) || 0 };
+        },
+    }
+);
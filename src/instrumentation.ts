@@ -0,0 +1,7 @@
+// Runs once when the server starts: pick up jobs interrupted by a restart
+export async function register() {
+    if (process.env.NEXT_RUNTIME === "nodejs") {
+        const { processQueue } = await import("./lib/jobQueue");
+        processQueue();
+    }
+}
@@ -0,0 +1,51 @@
+import OpenAI from "openai";
+import { getOpenAIApiKey, readSettings } from "./settingsStore";
+import { OPENAI_PROVIDER_ID, type AIProvider, type AIRole } from "./settings";
+
+const MODEL_FIELDS: Record<AIRole, "chatModel" | "visionModel" | "transcriptionModel"> = {
+    chat: "chatModel",
+    vision: "visionModel",
+    transcription: "transcriptionModel",
+};
+
+function getProvider(role: AIRole): AIProvider {
+    const settings = readSettings();
+    return settings.providers.find((provider) => provider.id === settings.roles[role])!;
+}
+
+function getProviderApiKey(provider: AIProvider): string | null {
+    if (provider.apiKey) return provider.apiKey;
+    if (provider.id === OPENAI_PROVIDER_ID && !provider.baseUrl) return getOpenAIApiKey();
+    // Self-hosted servers usually ignore the key, but the SDK insists on one
+    return provider.baseUrl ? "not-needed" : null;
+}
+
+// Why the provider for a role can't be used, or null if it's ready
+export function getAIConfigError(role: AIRole): string | null {
+    const provider = getProvider(role);
+    if (!getProviderApiKey(provider)) {
+        return provider.id === OPENAI_PROVIDER_ID
+            ? "OpenAI API key not configured. Please set it in settings."
+            : `No API key configured for ${provider.name}. Please set it in settings.`;
+    }
+    if (!provider[MODEL_FIELDS[role]]) {
+        return `No ${role} model configured for ${provider.name}. Please set it in settings.`;
+    }
+    return null;
+}
+
+// Client and model for a pipeline role, as configured in settings
+export function getAIClient(role: AIRole): { client: OpenAI; model: string } {
+    const error = getAIConfigError(role);
+    if (error) {
+        throw new Error(error);
+    }
+    const provider = getProvider(role);
+    return {
+        client: new OpenAI({
+            apiKey: getProviderApiKey(provider)!,
+            baseURL: provider.baseUrl || undefined,
+        }),
+        model: provider[MODEL_FIELDS[role]],
+    };
+}
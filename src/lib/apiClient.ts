@@ -0,0 +1,9 @@
+// The JSON body of an API response, throwing the route's error message for
+// non-2xx statuses
+export async function readJson<T>(response: Response): Promise<T> {
+    const data = await response.json();
+    if (!response.ok) {
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+    return data;
+}
@@ -0,0 +1,32 @@
+import { readJson } from "./apiClient";
+
+// One turn of an "ask this video" conversation. Answers cite moments in the
+// video as [m:ss] timestamps.
+export interface ChatMessage {
+    role: "user" | "assistant";
+    content: string;
+    createdAt: number;
+}
+
+export async function fetchConversation(videoId: string): Promise<ChatMessage[]> {
+    const data = await readJson<{ messages: ChatMessage[] }>(
+        await fetch(`/api/ask?videoId=${videoId}`)
+    );
+    return data.messages;
+}
+
+// Ask a question; resolves with the whole conversation including the answer
+export async function askVideo(videoId: string, question: string): Promise<ChatMessage[]> {
+    const data = await readJson<{ messages: ChatMessage[] }>(
+        await fetch("/api/ask", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ videoId, question }),
+        })
+    );
+    return data.messages;
+}
+
+export async function clearConversation(videoId: string): Promise<void> {
+    await readJson(await fetch(`/api/ask?videoId=${videoId}`, { method: "DELETE" }));
+}
@@ -0,0 +1,48 @@
+import path from "path";
+import fs from "fs";
+import type { ChatMessage } from "./ask";
+import { writeJsonAtomic } from "./jsonFile";
+import { isValidVideoId } from "./youtubeUrl";
+
+// "Ask this video" conversations, one file per video under .vnotes/chats
+const CONFIG_DIR = path.join(process.cwd(), ".vnotes");
+const CHATS_DIR = path.join(CONFIG_DIR, "chats");
+
+function getChatPath(videoId: string): string | null {
+    if (!isValidVideoId(videoId)) {
+        return null;
+    }
+    return path.join(CHATS_DIR, `${videoId}.json`);
+}
+
+export function readConversation(videoId: string): ChatMessage[] {
+    const chatPath = getChatPath(videoId);
+    if (!chatPath || !fs.existsSync(chatPath)) {
+        return [];
+    }
+    try {
+        return JSON.parse(fs.readFileSync(chatPath, "utf-8")).messages ?? [];
+    } catch {
+        return [];
+    }
+}
+
+export function appendToConversation(videoId: string, messages: ChatMessage[]): ChatMessage[] {
+    const chatPath = getChatPath(videoId);
+    if (!chatPath) {
+        throw new Error(`Invalid video id: ${videoId}`);
+    }
+    if (!fs.existsSync(CHATS_DIR)) {
+        fs.mkdirSync(CHATS_DIR, { recursive: true });
+    }
+    const conversation = [...readConversation(videoId), ...messages];
+    writeJsonAtomic(chatPath, { videoId, messages: conversation });
+    return conversation;
+}
+
+export function deleteConversation(videoId: string) {
+    const chatPath = getChatPath(videoId);
+    if (chatPath && fs.existsSync(chatPath)) {
+        fs.unlinkSync(chatPath);
+    }
+}
@@ -0,0 +1,127 @@
+import path from "path";
+import fs from "fs";
+import { once } from "events";
+import { finished } from "stream/promises";
+import Innertube from "youtubei.js";
+import { getVideoMetadata } from "./metadataStore";
+import type { DownloadProgress, MediaOptions } from "./jobs";
+
+const VIDEOS_DIR = path.join(process.cwd(), "public", "videos");
+
+// Audio-only downloads are stored next to videos as .m4a
+function getMediaFileName(videoId: string, audioOnly: boolean): string {
+    return `${videoId}.${audioOnly ? "m4a" : "mp4"}`;
+}
+
+export function getVideoPath(videoId: string): string {
+    return path.join(VIDEOS_DIR, getMediaFileName(videoId, false));
+}
+
+export function getAudioPath(videoId: string): string {
+    return path.join(VIDEOS_DIR, getMediaFileName(videoId, true));
+}
+
+// Public path of the downloaded media for these options, or null if it
+// hasn't been downloaded yet
+export function findDownloadedMedia(videoId: string, audioOnly: boolean): string | null {
+    const fileName = getMediaFileName(videoId, audioOnly);
+    return fs.existsSync(path.join(VIDEOS_DIR, fileName)) ? `/videos/${fileName}` : null;
+}
+
+// Media the summarize pipeline should work from: the video, unless audio-only
+// was asked for or only the audio track has been downloaded
+export function findMediaToSummarize(
+    videoId: string,
+    audioOnly: boolean
+): { path: string; audioOnly: boolean } | null {
+    if (!audioOnly && fs.existsSync(getVideoPath(videoId))) {
+        return { path: getVideoPath(videoId), audioOnly: false };
+    }
+    if (fs.existsSync(getAudioPath(videoId))) {
+        return { path: getAudioPath(videoId), audioOnly: true };
+    }
+    return null;
+}
+
+// Download a YouTube video (or just its audio) to public/videos, returning
+// its public path. Already-downloaded media is returned without touching the
+// network, whatever quality it was fetched at.
+export async function downloadYouTubeVideo(
+    videoId: string,
+    { quality, audioOnly }: MediaOptions,
+    signal?: AbortSignal,
+    onProgress?: (progress: DownloadProgress) => void
+): Promise<string> {
+    const fileName = getMediaFileName(videoId, audioOnly);
+    const outputPath = path.join(VIDEOS_DIR, fileName);
+    const mediaPath = `/videos/${fileName}`;
+
+    if (fs.existsSync(outputPath)) {
+        return mediaPath;
+    }
+
+    if (!fs.existsSync(VIDEOS_DIR)) {
+        fs.mkdirSync(VIDEOS_DIR, { recursive: true });
+    }
+
+    // Initialize YouTube.js
+    const yt = await Innertube.create();
+
+    // Use the ANDROID client, which has progressive formats; resolving the
+    // format up front tells us the total size for progress reporting
+    const client = "ANDROID";
+    const type = audioOnly ? "audio" : "video+audio";
+    const info = await yt.getBasicInfo(videoId, { client });
+    const chooseFormat = (preferred: string) =>
+        info.chooseFormat({ type, quality: preferred, format: "mp4", client });
+
+    let format;
+    try {
+        format = chooseFormat(audioOnly ? "best" : quality);
+    } catch (error) {
+        // Progressive streams only come in a few resolutions; take the best
+        // one available rather than failing
+        if (audioOnly || quality === "best") throw error;
+        console.warn(`No ${quality} format for ${videoId}, downloading best available`);
+        format = chooseFormat("best");
+    }
+    const totalBytes = format.content_length ?? null;
+    const stream = await info.download({ type, itag: format.itag, client });
+
+    // Stream to a .part file and rename once complete, so an interrupted
+    // download is never mistaken for a finished video
+    const partPath = `${outputPath}.part`;
+    const file = fs.createWriteStream(partPath);
+    const reader = stream.getReader();
+    let receivedBytes = 0;
+
+    try {
+        onProgress?.({ receivedBytes, totalBytes });
+        while (true) {
+            signal?.throwIfAborted();
+            const { done, value } = await reader.read();
+            if (done) break;
+            if (!file.write(value)) {
+                await once(file, "drain");
+            }
+            receivedBytes += value.length;
+            onProgress?.({ receivedBytes, totalBytes });
+        }
+        file.end();
+        await finished(file);
+        fs.renameSync(partPath, outputPath);
+    } catch (error) {
+        await reader.cancel().catch(() => {});
+        file.destroy();
+        fs.rmSync(partPath, { force: true });
+        throw error;
+    }
+
+    // Store title, description and chapters with the video; it is still
+    // usable without them
+    await getVideoMetadata(videoId, yt).catch((error) => {
+        console.warn(`Could not fetch metadata for ${videoId}:`, error);
+    });
+
+    return mediaPath;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseCards } from "./flashcardGenerator";
+
+describe("parseCards", () => {
+    it("reads cards from JSON wrapped in a code fence, skipping malformed ones", () => {
+        const content = [
+            "Here are your cards:",
+            "```json",
+            JSON.stringify({
+                cards: [
+                    { question: " What? ", answer: " This. ", timestamp: "1:05" },
+                    { question: "No answer", timestamp: "0:10" },
+                    { question: "Bad time", answer: "Starts at 0", timestamp: "soon" },
+                ],
+            }),
+            "```",
+        ].join("\n");
+
+        expect(parseCards(content, "abc", 600)).toEqual([
+            { front: "What?", back: "This.", videoId: "abc", time: 65 },
+            { front: "Bad time", back: "Starts at 0", videoId: "abc", time: 0 },
+        ]);
+    });
+
+    it("clamps times to the video's length", () => {
+        const content = JSON.stringify({ cards: [{ question: "Q", answer: "A", timestamp: "1:40:05" }] });
+
+        expect(parseCards(content, "abc", 3600)[0].time).toBe(3600);
+        expect(parseCards(content, "abc", Infinity)[0].time).toBe(6005);
+    });
+
+    it("throws when there are no usable cards", () => {
+        expect(() => parseCards("Sorry, I can't help with that.", "abc", 600)).toThrow();
+    });
+});
@@ -0,0 +1,93 @@
+import fs from "fs";
+import { getAIClient } from "./ai";
+import { checkCachedData } from "./summarize";
+import { readVideoMetadata } from "./metadataStore";
+import { formatTime, parseTime } from "./time";
+import type { Transcript } from "./transcript";
+import type { Flashcard } from "./flashcards";
+
+// Roughly how many cards to ask for; the model may write fewer for short videos
+const FLASHCARD_COUNT = 15;
+
+// The transcript with each segment prefixed by its start time, so the model
+// can say where each answer is discussed
+function formatTranscript(transcript: Transcript): string {
+    return transcript.segments
+        .map((segment) => `[${formatTime(segment.start)}] ${segment.text.trim()}`)
+        .join("\n");
+}
+
+function buildPrompt(transcript: Transcript, title: string | null): string {
+    return `You are writing flashcards for studying a video${title ? ` titled "${title}"` : ""}. Each line of the transcript below starts with its timestamp in the video as [m:ss], or [h:mm:ss] from one hour on.
+
+## Transcript:
+${formatTranscript(transcript)}
+
+## Instructions:
+1. Write up to ${FLASHCARD_COUNT} flashcards covering the key concepts, definitions and facts
+2. Each question should be answerable on its own, without having seen the video
+3. Keep answers short: one to three sentences
+4. For each card, give the timestamp of the transcript line where the answer is discussed
+5. Write in ${transcript.language || "the same language as the transcript"}
+
+Reply with only a JSON object of this form:
+{"cards": [{"question": "...", "answer": "...", "timestamp": "m:ss or h:mm:ss"}]}`;
+}
+
+// Cards from the model's reply, skipping malformed ones. Models sometimes wrap
+// the JSON in a code fence or prose, so take the outermost object.
+export function parseCards(content: string, videoId: string, duration: number): Flashcard[] {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+        throw new Error("The model did not return any flashcards");
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content.slice(start, end + 1));
+    } catch {
+        throw new Error("The model returned flashcards that could not be read");
+    }
+
+    const rawCards = (parsed as { cards?: unknown }).cards;
+    const cards: Flashcard[] = [];
+    for (const raw of Array.isArray(rawCards) ? rawCards : []) {
+        const front = typeof raw?.question === "string" ? raw.question.trim() : "";
+        const back = typeof raw?.answer === "string" ? raw.answer.trim() : "";
+        if (!front || !back) continue;
+
+        const timestamp = typeof raw.timestamp === "string" ? raw.timestamp.trim() : "";
+        const time = /^\d+(:\d{1,2}){1,2}$/.test(timestamp) ? parseTime(timestamp) : 0;
+        cards.push({ front, back, videoId, time: Math.min(time, duration) });
+    }
+    if (cards.length === 0) {
+        throw new Error("The model did not return any flashcards");
+    }
+    return cards;
+}
+
+// Question/answer cards from the video's cached transcript
+export async function generateFlashcards(videoId: string): Promise<Flashcard[]> {
+    const { transcriptPath } = checkCachedData(videoId);
+    const transcript: Transcript = JSON.parse(fs.readFileSync(transcriptPath, "utf-8"));
+    const lastSegment = transcript.segments[transcript.segments.length - 1];
+    // Some transcripts store a duration of 0; with no length at all, times
+    // aren't clamped
+    const duration =
+        transcript.duration && transcript.duration > 0 ? transcript.duration : lastSegment?.end || Infinity;
+
+    const { client, model } = getAIClient("chat");
+    const response = await client.chat.completions.create({
+        model,
+        messages: [
+            {
+                role: "user",
+                content: buildPrompt(transcript, readVideoMetadata(videoId)?.title || null),
+            },
+        ],
+        max_tokens: 3000,
+    });
+
+    return parseCards(response.choices[0].message.content || "", videoId, duration);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { hasCompleteFlashcard, toAnkiTsv, type Flashcard } from "./flashcards";
+
+const HEADER = "#separator:tab\n#html:true\n#columns:Front\tBack\n";
+
+describe("toAnkiTsv", () => {
+    it("writes one row per card linking to the moment on YouTube", () => {
+        const cards: Flashcard[] = [{ front: "Q", back: "A", videoId: "dQw4w9WgXcQ", time: 75.6 }];
+
+        expect(toAnkiTsv(cards)).toBe(
+            `${HEADER}Q\tA<br><br><a href="https://www.youtube.com/watch?v=dQw4w9WgXcQ&amp;t=75s">1:15</a>\n`
+        );
+    });
+
+    it("gives uploaded videos a plain time and cards without a video no reference", () => {
+        const cards: Flashcard[] = [
+            { front: "Q1", back: "A1", videoId: "local-0123456789abcdef", time: 3725 },
+            { front: "Q2", back: "A2", videoId: "", time: 0 },
+        ];
+
+        expect(toAnkiTsv(cards)).toBe(`${HEADER}Q1\tA1<br><br>(1:02:05)\nQ2\tA2\n`);
+    });
+
+    it("escapes HTML and keeps tabs and newlines out of the fields", () => {
+        const cards: Flashcard[] = [{ front: "a < b & c", back: "one\ttwo\nthree", videoId: "", time: 0 }];
+
+        expect(toAnkiTsv(cards)).toBe(`${HEADER}a &lt; b &amp; c\tone two<br>three\n`);
+    });
+});
+
+describe("hasCompleteFlashcard", () => {
+    it("finds filled-in cards at any depth", () => {
+        const card = { type: "flashcard", props: { front: "Q", back: "A" } };
+
+        expect(hasCompleteFlashcard([{ type: "paragraph", children: [card] }])).toBe(true);
+    });
+
+    it("ignores cards missing a side", () => {
+        expect(hasCompleteFlashcard([{ type: "flashcard", props: { front: "Q", back: "" } }])).toBe(false);
+        expect(hasCompleteFlashcard([])).toBe(false);
+    });
+});
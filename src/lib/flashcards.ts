@@ -0,0 +1,60 @@
+import { formatTime } from "./time";
+import { isLocalVideoId } from "./localVideos";
+import type { Blocks } from "./pages";
+import { readJson } from "./apiClient";
+
+// A question/answer card, pointing at the moment in the video where the
+// answer is discussed
+export interface Flashcard {
+    front: string;
+    back: string;
+    videoId: string;
+    // Seconds from the start of the video
+    time: number;
+}
+
+// Whether a flashcard block with both sides filled in is anywhere in the
+// blocks, i.e. whether exporting them would produce any cards
+export function hasCompleteFlashcard(blocks: Blocks): boolean {
+    return blocks.some(
+        (block) =>
+            (block.type === "flashcard" && block.props?.front && block.props?.back) ||
+            hasCompleteFlashcard(block.children || [])
+    );
+}
+
+export async function generateFlashcards(videoId: string): Promise<Flashcard[]> {
+    const data = await readJson<{ cards: Flashcard[] }>(
+        await fetch("/api/flashcards", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ videoId }),
+        })
+    );
+    return data.cards;
+}
+
+function escapeField(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/\t/g, " ")
+        .replace(/\r?\n/g, "<br>");
+}
+
+// Tab-separated notes for Anki's File > Import, with the header lines that
+// tell it the separator and that fields are HTML. The back links to the
+// moment in the video where YouTube can show it.
+export function toAnkiTsv(cards: Flashcard[]): string {
+    const rows = cards.map((card) => {
+        const time = formatTime(card.time);
+        const reference = !card.videoId
+            ? ""
+            : isLocalVideoId(card.videoId)
+              ? `<br><br>(${time})`
+              : `<br><br><a href="https://www.youtube.com/watch?v=${card.videoId}&amp;t=${Math.floor(card.time)}s">${time}</a>`;
+        return `${escapeField(card.front)}\t${escapeField(card.back)}${reference}`;
+    });
+    return ["#separator:tab", "#html:true", "#columns:Front\tBack", ...rows].join("\n") + "\n";
+}
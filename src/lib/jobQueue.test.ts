@@ -0,0 +1,133 @@
+import os from "os";
+import path from "path";
+import fs from "fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_MEDIA_OPTIONS, DEFAULT_SUMMARY_OPTIONS, type Job } from "./jobs";
+
+// Downloads never finish on their own here; they only end when aborted
+const { downloadYouTubeVideo } = vi.hoisted(() => ({
+    downloadYouTubeVideo: vi.fn(
+        (_videoId: string, _options: unknown, signal: AbortSignal) =>
+            new Promise<string>((_resolve, reject) => {
+                signal.addEventListener("abort", () => reject(new Error("Download cancelled")));
+            })
+    ),
+}));
+
+vi.mock("./download", () => ({
+    downloadYouTubeVideo,
+    findMediaToSummarize: vi.fn(() => null),
+}));
+
+vi.mock("./summarize", () => ({
+    getSummarizeConfigError: vi.fn(() => null),
+    summarizeVideo: vi.fn(),
+}));
+
+// The queue resolves .vnotes from the working directory when it loads and
+// keeps its state on globalThis, so each test starts from a fresh copy
+let workDir: string;
+let queue: typeof import("./jobQueue");
+
+function jobsDir() {
+    return path.join(workDir, ".vnotes", "jobs");
+}
+
+// Job records as an earlier server run would have left them
+function writeJobFile(overrides: Partial<Job> & Pick<Job, "id" | "type" | "status">) {
+    const now = Date.now();
+    const job: Job = {
+        videoId: "dQw4w9WgXcQ",
+        options: DEFAULT_MEDIA_OPTIONS,
+        summary: DEFAULT_SUMMARY_OPTIONS,
+        dependsOn: null,
+        events: [],
+        progress: null,
+        result: null,
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+        startedAt: null,
+        finishedAt: null,
+        ...overrides,
+    };
+    fs.mkdirSync(jobsDir(), { recursive: true });
+    fs.writeFileSync(path.join(jobsDir(), `${job.id}.json`), JSON.stringify(job));
+}
+
+function readJobFile(jobId: string): Job {
+    return JSON.parse(fs.readFileSync(path.join(jobsDir(), `${jobId}.json`), "utf-8"));
+}
+
+async function loadQueue() {
+    vi.resetModules();
+    queue = await import("./jobQueue");
+}
+
+beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "vnotes-jobs-"));
+    vi.spyOn(process, "cwd").mockReturnValue(workDir);
+    delete (globalThis as { vnotesJobQueue?: unknown }).vnotesJobQueue;
+    downloadYouTubeVideo.mockClear();
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe("enqueueJob", () => {
+    it("returns the active job for the same video and audio-only choice", async () => {
+        await loadQueue();
+        const first = queue.enqueueJob("download", "dQw4w9WgXcQ", DEFAULT_MEDIA_OPTIONS);
+        const again = queue.enqueueJob("download", "dQw4w9WgXcQ", DEFAULT_MEDIA_OPTIONS);
+        const audio = queue.enqueueJob("download", "dQw4w9WgXcQ", { ...DEFAULT_MEDIA_OPTIONS, audioOnly: true });
+
+        expect(again.id).toBe(first.id);
+        expect(audio.id).not.toBe(first.id);
+        expect(downloadYouTubeVideo).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe("processQueue", () => {
+    it("fails jobs whose dependency did not complete", async () => {
+        writeJobFile({ id: "download-1", type: "download", status: "failed" });
+        writeJobFile({ id: "summarize-1", type: "summarize", status: "queued", dependsOn: "download-1" });
+        await loadQueue();
+
+        queue.processQueue();
+
+        expect(readJobFile("summarize-1")).toMatchObject({
+            status: "failed",
+            error: "The download job this depended on did not complete",
+        });
+    });
+
+    it("requeues and restarts jobs a stopped server left running", async () => {
+        writeJobFile({ id: "download-1", type: "download", status: "running", startedAt: 1 });
+        await loadQueue();
+
+        queue.processQueue();
+
+        expect(downloadYouTubeVideo).toHaveBeenCalledTimes(1);
+        expect(queue.readJob("download-1")).toMatchObject({ status: "running" });
+        expect(queue.readJob("download-1")?.startedAt).toBeGreaterThan(1);
+    });
+});
+
+describe("cancelJob", () => {
+    it("aborts a running job and records it as cancelled", async () => {
+        await loadQueue();
+        const job = queue.enqueueJob("download", "dQw4w9WgXcQ", DEFAULT_MEDIA_OPTIONS);
+        expect(job.status).toBe("running");
+
+        expect(queue.cancelJob(job.id)?.status).toBe("cancelled");
+        const signal = downloadYouTubeVideo.mock.calls[0][2];
+        expect(signal.aborted).toBe(true);
+
+        // Let the aborted download settle before the directory goes away
+        const state = (globalThis as { vnotesJobQueue?: { running: Map<string, unknown> } }).vnotesJobQueue;
+        await vi.waitFor(() => expect(state?.running.size).toBe(0));
+        expect(readJobFile(job.id).status).toBe("cancelled");
+    });
+});
@@ -0,0 +1,328 @@
+import path from "path";
+import fs from "fs";
+import { downloadYouTubeVideo, findMediaToSummarize } from "./download";
+import { getSummarizeConfigError, summarizeVideo } from "./summarize";
+import type { SummarizeProgressEvent } from "./summarizeProgress";
+import {
+    isJobActive,
+    type DownloadProgress,
+    type Job,
+    DEFAULT_SUMMARY_OPTIONS,
+    type MediaOptions,
+    type JobResult,
+    type JobType,
+    type SummaryOptions,
+} from "./jobs";
+import { writeJsonAtomic } from "./jsonFile";
+
+// Background jobs: one JSON record per job under .vnotes/jobs, so progress
+// survives closed tabs and interrupted jobs can be picked up after a restart
+const CONFIG_DIR = path.join(process.cwd(), ".vnotes");
+const JOBS_DIR = path.join(CONFIG_DIR, "jobs");
+
+const MAX_CONCURRENT_JOBS = 2;
+
+// Download progress arrives per chunk; persist it at most this often
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+// Finished job records are pruned after a week
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface RunningJob {
+    job: Job;
+    controller: AbortController;
+}
+
+interface QueueState {
+    resumed: boolean;
+    running: Map<string, RunningJob>;
+    // createdAt of the newest job; each new job gets a later one, so jobs
+    // queued in the same millisecond still start in the order they were queued
+    lastCreatedAt: number;
+}
+
+// Route handlers and instrumentation may each load their own copy of this
+// module (and dev reloads re-evaluate it), so the queue lives on globalThis
+const globalForJobs = globalThis as typeof globalThis & {
+    vnotesJobQueue?: QueueState;
+};
+const state: QueueState = (globalForJobs.vnotesJobQueue ??= {
+    resumed: false,
+    running: new Map(),
+    lastCreatedAt: 0,
+});
+
+function ensureJobsDir() {
+    if (!fs.existsSync(JOBS_DIR)) {
+        fs.mkdirSync(JOBS_DIR, { recursive: true });
+    }
+}
+
+function getJobPath(jobId: string): string | null {
+    if (!/^[A-Za-z0-9_-]+$/.test(jobId)) {
+        return null;
+    }
+    return path.join(JOBS_DIR, `${jobId}.json`);
+}
+
+function writeJob(job: Job) {
+    ensureJobsDir();
+    const jobPath = getJobPath(job.id);
+    if (!jobPath) {
+        throw new Error(`Invalid job id: ${job.id}`);
+    }
+    writeJsonAtomic(jobPath, job);
+}
+
+export function readJob(jobId: string): Job | null {
+    // The in-memory copy of a running job is the authoritative one
+    const running = state.running.get(jobId);
+    if (running) {
+        return running.job;
+    }
+    const jobPath = getJobPath(jobId);
+    if (!jobPath || !fs.existsSync(jobPath)) {
+        return null;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(jobPath, "utf-8"));
+    } catch {
+        return null;
+    }
+}
+
+export function listJobs(filter: {
+    videoId?: string;
+    type?: JobType;
+    active?: boolean;
+} = {}): Job[] {
+    ensureJobsDir();
+    return fs
+        .readdirSync(JOBS_DIR)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => readJob(path.basename(file, ".json")))
+        .filter((job): job is Job => job !== null)
+        .filter(
+            (job) =>
+                (!filter.videoId || job.videoId === filter.videoId) &&
+                (!filter.type || job.type === filter.type) &&
+                (!filter.active || isJobActive(job))
+        )
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+function updateRunningJob(
+    running: RunningJob,
+    changes: Partial<Job>,
+    { persist = true }: { persist?: boolean } = {}
+) {
+    running.job = { ...running.job, ...changes, updatedAt: Date.now() };
+    if (persist) {
+        writeJob(running.job);
+    }
+}
+
+async function executeJob(
+    job: Job,
+    emit: (event: SummarizeProgressEvent) => void,
+    onProgress: (progress: DownloadProgress) => void,
+    signal: AbortSignal
+): Promise<JobResult> {
+    switch (job.type) {
+        case "download":
+            return {
+                videoPath: await downloadYouTubeVideo(job.videoId, job.options, signal, onProgress),
+            };
+        case "summarize": {
+            const media = findMediaToSummarize(job.videoId, job.options.audioOnly);
+            if (!media) {
+                throw new Error("Video not found. Please download it first.");
+            }
+            const configError = getSummarizeConfigError(media.audioOnly);
+            if (configError) {
+                throw new Error(configError);
+            }
+            return summarizeVideo(job.videoId, media, emit, signal, job.summary);
+        }
+    }
+}
+
+function startJob(job: Job) {
+    const running: RunningJob = { job, controller: new AbortController() };
+    const { signal } = running.controller;
+    state.running.set(job.id, running);
+
+    const startedAt = Date.now();
+    updateRunningJob(running, {
+        status: "running",
+        startedAt,
+        finishedAt: null,
+        events: [],
+        progress: null,
+        result: null,
+        error: null,
+    });
+
+    const emit = (event: SummarizeProgressEvent) => {
+        updateRunningJob(running, {
+            events: [...running.job.events, { ...event, elapsedMs: Date.now() - startedAt }],
+        });
+    };
+
+    // Polling reads the in-memory record, so skipped writes only affect
+    // what a restarted server would see
+    let lastProgressWrite = 0;
+    const onProgress = (progress: DownloadProgress) => {
+        const now = Date.now();
+        const persist = now - lastProgressWrite >= PROGRESS_WRITE_INTERVAL_MS;
+        if (persist) lastProgressWrite = now;
+        updateRunningJob(running, { progress }, { persist });
+    };
+
+    executeJob(running.job, emit, onProgress, signal)
+        .then((result) => {
+            // A cancelled job has already been marked as such
+            if (!signal.aborted) {
+                updateRunningJob(running, { status: "completed", result, finishedAt: Date.now() });
+            }
+        })
+        .catch((error) => {
+            if (!signal.aborted) {
+                console.error(`Error running ${job.type} job for ${job.videoId}:`, error);
+                updateRunningJob(running, {
+                    status: "failed",
+                    error: error instanceof Error ? error.message : `Failed to ${job.type} video`,
+                    finishedAt: Date.now(),
+                });
+            }
+        })
+        .finally(() => {
+            state.running.delete(job.id);
+            processQueue();
+        });
+}
+
+// Jobs left "running" on disk belong to a server that has since stopped;
+// put them back in the queue and drop old finished records
+function resumeInterruptedJobs() {
+    if (state.resumed) return;
+    state.resumed = true;
+
+    const now = Date.now();
+    for (const job of listJobs()) {
+        if (job.status === "running" && !state.running.has(job.id)) {
+            console.log(`Resuming interrupted ${job.type} job for ${job.videoId}`);
+            writeJob({ ...job, status: "queued", updatedAt: now });
+        } else if (!isJobActive(job) && now - job.updatedAt > JOB_RETENTION_MS) {
+            const jobPath = getJobPath(job.id);
+            if (jobPath) fs.unlinkSync(jobPath);
+        }
+    }
+}
+
+// Start queued jobs, oldest first, up to the concurrency limit
+export function processQueue() {
+    resumeInterruptedJobs();
+
+    const queued = listJobs()
+        .filter((job) => job.status === "queued")
+        .reverse();
+
+    for (const job of queued) {
+        if (state.running.size >= MAX_CONCURRENT_JOBS) break;
+
+        if (job.dependsOn) {
+            const dependency = readJob(job.dependsOn);
+            if (dependency && isJobActive(dependency)) continue;
+            if (dependency?.status !== "completed") {
+                writeJob({
+                    ...job,
+                    status: "failed",
+                    error: `The ${dependency?.type ?? "previous"} job this depended on did not complete`,
+                    updatedAt: Date.now(),
+                    finishedAt: Date.now(),
+                });
+                continue;
+            }
+        }
+
+        startJob(job);
+    }
+}
+
+// Queue a job unless one of the same type is already queued or running for
+// the video (and the same audio-only choice), in which case that job is
+// returned instead
+export function enqueueJob(
+    type: JobType,
+    videoId: string,
+    options: MediaOptions,
+    summary: SummaryOptions = DEFAULT_SUMMARY_OPTIONS
+): Job {
+    resumeInterruptedJobs();
+
+    const findActive = (jobType: JobType) =>
+        listJobs({ videoId, type: jobType, active: true }).find(
+            (job) => job.options.audioOnly === options.audioOnly
+        );
+
+    const existing = findActive(type);
+    if (existing) {
+        return existing;
+    }
+
+    // Summaries need the media on disk, so wait for an in-flight download
+    const pendingDownload = type === "summarize" ? findActive("download") : undefined;
+
+    const now = Date.now();
+    const createdAt = Math.max(now, state.lastCreatedAt + 1);
+    state.lastCreatedAt = createdAt;
+    const job: Job = {
+        id: crypto.randomUUID(),
+        type,
+        videoId,
+        options,
+        summary,
+        status: "queued",
+        dependsOn: pendingDownload?.id ?? null,
+        events: [],
+        progress: null,
+        result: null,
+        error: null,
+        createdAt,
+        updatedAt: now,
+        startedAt: null,
+        finishedAt: null,
+    };
+    writeJob(job);
+    processQueue();
+
+    return readJob(job.id) ?? job;
+}
+
+// Cancel a queued or running job. Running work stops at its next checkpoint.
+export function cancelJob(jobId: string): Job | null {
+    const running = state.running.get(jobId);
+    if (running) {
+        running.controller.abort();
+        updateRunningJob(running, { status: "cancelled", finishedAt: Date.now() });
+        return running.job;
+    }
+
+    const job = readJob(jobId);
+    if (!job) {
+        return null;
+    }
+    if (job.status !== "queued") {
+        return job;
+    }
+
+    const cancelled: Job = {
+        ...job,
+        status: "cancelled",
+        updatedAt: Date.now(),
+        finishedAt: Date.now(),
+    };
+    writeJob(cancelled);
+    return cancelled;
+}
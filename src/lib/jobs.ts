@@ -0,0 +1,158 @@
+import type { SummarizeResult, SummarizeStreamEvent } from "./summarizeProgress";
+import { readJson } from "./apiClient";
+
+export type JobType = "download" | "summarize";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export const JOB_TYPES: JobType[] = ["download", "summarize"];
+
+export type VideoQuality = "360p" | "720p" | "best";
+
+export const VIDEO_QUALITIES: VideoQuality[] = ["360p", "720p", "best"];
+
+// What to fetch for a video, chosen per YouTube block
+export interface MediaOptions {
+    quality: VideoQuality;
+    // Download just the audio track, and summarize from the transcript alone
+    audioOnly: boolean;
+}
+
+export const DEFAULT_MEDIA_OPTIONS: MediaOptions = {
+    quality: "best",
+    audioOnly: false,
+};
+
+// Fill in defaults for options sent by a client; null if quality is unknown
+export function parseMediaOptions(input: {
+    quality?: unknown;
+    audioOnly?: unknown;
+}): MediaOptions | null {
+    const quality = input.quality ?? DEFAULT_MEDIA_OPTIONS.quality;
+    if (!VIDEO_QUALITIES.includes(quality as VideoQuality)) {
+        return null;
+    }
+    return {
+        quality: quality as VideoQuality,
+        audioOnly: input.audioOnly === true || input.audioOnly === "1",
+    };
+}
+
+// "chapters" writes one section per YouTube chapter instead of a single overview
+export type SummaryMode = "overview" | "chapters";
+
+export const SUMMARY_MODES: SummaryMode[] = ["overview", "chapters"];
+
+// How a summary is written, chosen when it is requested
+export interface SummaryOptions {
+    // Prompt template; null means the default
+    templateId: string | null;
+    mode: SummaryMode;
+}
+
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = {
+    templateId: null,
+    mode: "overview",
+};
+
+export interface DownloadProgress {
+    receivedBytes: number;
+    // Unknown when YouTube doesn't report a content length
+    totalBytes: number | null;
+}
+
+export interface DownloadResult {
+    videoPath: string;
+}
+
+export type JobResult = DownloadResult | SummarizeResult;
+
+export interface Job {
+    id: string;
+    type: JobType;
+    videoId: string;
+    options: MediaOptions;
+    // Only used by summarize jobs
+    summary: SummaryOptions;
+    status: JobStatus;
+    // Job that has to complete before this one may start
+    dependsOn: string | null;
+    // Progress reported by the running job: stage events for summaries,
+    // bytes received for downloads
+    events: SummarizeStreamEvent[];
+    progress: DownloadProgress | null;
+    result: JobResult | null;
+    error: string | null;
+    createdAt: number;
+    updatedAt: number;
+    startedAt: number | null;
+    finishedAt: number | null;
+}
+
+// How often a watched job is re-fetched
+const POLL_INTERVAL_MS = 1000;
+
+export function isJobActive(job: Job): boolean {
+    return job.status === "queued" || job.status === "running";
+}
+
+// Queue a job, or get back the one already queued or running for this video
+export async function enqueueJob(
+    type: JobType,
+    videoId: string,
+    options: MediaOptions = DEFAULT_MEDIA_OPTIONS,
+    summary: SummaryOptions = DEFAULT_SUMMARY_OPTIONS
+): Promise<Job> {
+    const response = await fetch("/api/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type, videoId, ...options, ...summary }),
+    });
+    const data = await readJson<{ job: Job }>(response);
+    return data.job;
+}
+
+export async function fetchJobs(filter: {
+    videoId?: string;
+    type?: JobType;
+    active?: boolean;
+} = {}): Promise<Job[]> {
+    const params = new URLSearchParams();
+    if (filter.videoId) params.set("videoId", filter.videoId);
+    if (filter.type) params.set("type", filter.type);
+    if (filter.active) params.set("active", "1");
+    const response = await fetch(`/api/jobs?${params}`);
+    const data = await readJson<{ jobs: Job[] }>(response);
+    return data.jobs;
+}
+
+export async function fetchJob(jobId: string): Promise<Job> {
+    const response = await fetch(`/api/jobs/${jobId}`);
+    const data = await readJson<{ job: Job }>(response);
+    return data.job;
+}
+
+export async function cancelJob(jobId: string): Promise<Job> {
+    const response = await fetch(`/api/jobs/${jobId}`, { method: "DELETE" });
+    const data = await readJson<{ job: Job }>(response);
+    return data.job;
+}
+
+// Poll a job until it finishes, reporting every update along the way.
+// Resolves with the finished job, or null if the signal aborts first.
+export async function watchJob(
+    job: Job,
+    onUpdate: (job: Job) => void,
+    signal?: AbortSignal
+): Promise<Job | null> {
+    let current = job;
+    onUpdate(current);
+    while (isJobActive(current)) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        if (signal?.aborted) return null;
+        current = await fetchJob(current.id);
+        if (signal?.aborted) return null;
+        onUpdate(current);
+    }
+    return current;
+}
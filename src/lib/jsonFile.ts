@@ -0,0 +1,9 @@
+import fs from "fs";
+
+// Write JSON to a temp file first, then rename it into place, so a crash
+// never leaves a truncated file behind
+export function writeJsonAtomic(filePath: string, data: unknown) {
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, filePath);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { parseTimestamp, parseVtt } from "./localTranscribe";
+
+describe("parseTimestamp", () => {
+    it("reads hours, minutes and fractional seconds", () => {
+        expect(parseTimestamp("01:02:03.456")).toBeCloseTo(3723.456);
+        expect(parseTimestamp("02:03.5")).toBeCloseTo(123.5);
+    });
+
+    it("accepts SRT's comma decimal separator", () => {
+        expect(parseTimestamp("00:00:01,250")).toBeCloseTo(1.25);
+    });
+});
+
+describe("parseVtt", () => {
+    it("turns cues into segments, joining multi-line text", () => {
+        const vtt = [
+            "WEBVTT",
+            "",
+            "00:00:00.000 --> 00:00:02.500",
+            "Hello there",
+            "",
+            "1",
+            "00:00:02.500 --> 00:01:05.000 align:start",
+            "first line",
+            "second line",
+            "",
+        ].join("\r\n");
+
+        expect(parseVtt(vtt)).toEqual([
+            { start: 0, end: 2.5, text: "Hello there" },
+            { start: 2.5, end: 65, text: "first line second line" },
+        ]);
+    });
+
+    it("skips cues without text", () => {
+        expect(parseVtt("WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n\n")).toEqual([]);
+    });
+});
@@ -0,0 +1,162 @@
+import path from "path";
+import fs from "fs";
+import os from "os";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { TRANSCRIPTION_BACKENDS, type TranscriptionSettings } from "./settings";
+import type { Transcript, TranscriptSegment } from "./transcript";
+
+const execFileAsync = promisify(execFile);
+
+// whisper binaries print progress as they go
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+function getBinary(settings: TranscriptionSettings): string {
+    const option = TRANSCRIPTION_BACKENDS.find((o) => o.backend === settings.backend);
+    return settings.binaryPath || option?.defaultBinary || "";
+}
+
+// Resolve a command the way the shell would: a path as is, a bare name on PATH
+function findExecutable(command: string): string | null {
+    if (!command) return null;
+    if (command.includes("/") || command.includes("\\")) {
+        return fs.existsSync(command) ? command : null;
+    }
+    const extensions = process.platform === "win32" ? ["", ".exe", ".cmd"] : [""];
+    for (const dir of (process.env.PATH || "").split(path.delimiter)) {
+        for (const extension of extensions) {
+            const candidate = path.join(dir, command + extension);
+            if (dir && fs.existsSync(candidate)) return candidate;
+        }
+    }
+    return null;
+}
+
+// Why the local backend can't run, or null if it's ready
+export function getLocalTranscriptionError(settings: TranscriptionSettings): string | null {
+    const binary = getBinary(settings);
+    if (!findExecutable(binary)) {
+        return `${settings.backend} binary "${binary}" not found. Install it or set its path in settings.`;
+    }
+    if (settings.backend === "whisper.cpp") {
+        if (!settings.model) {
+            return "whisper.cpp needs a ggml model file. Please set it in settings.";
+        }
+        if (!fs.existsSync(settings.model)) {
+            return `Whisper model file not found: ${settings.model}`;
+        }
+    }
+    return null;
+}
+
+// "01:02:03.456", "02:03.456" or "00:00:01,000" to seconds
+export function parseTimestamp(value: string): number {
+    return value
+        .replace(",", ".")
+        .split(":")
+        .reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+export function parseVtt(content: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    for (const cue of content.replace(/\r/g, "").split(/\n{2,}/)) {
+        const lines = cue.split("\n");
+        const timingIndex = lines.findIndex((line) => line.includes("-->"));
+        if (timingIndex === -1) continue;
+        const [start, end] = lines[timingIndex].split("-->").map((part) => part.trim().split(/\s+/)[0]);
+        const text = lines.slice(timingIndex + 1).join(" ").trim();
+        if (!text) continue;
+        segments.push({ start: parseTimestamp(start), end: parseTimestamp(end), text });
+    }
+    return segments;
+}
+
+interface WhisperCppOutput {
+    result?: { language?: string };
+    transcription: { offsets: { from: number; to: number }; text: string }[];
+}
+
+// whisper.cpp only reads 16kHz WAV, so convert first, then ask for JSON output
+async function runWhisperCpp(
+    audioPath: string,
+    settings: TranscriptionSettings,
+    workDir: string,
+    signal?: AbortSignal
+): Promise<Transcript> {
+    const wavPath = path.join(workDir, "audio.wav");
+    await execFileAsync(
+        "ffmpeg",
+        ["-i", audioPath, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", "-y", wavPath],
+        { signal, maxBuffer: MAX_OUTPUT_BYTES }
+    );
+
+    const outputBase = path.join(workDir, "transcript");
+    await execFileAsync(
+        getBinary(settings),
+        ["-m", settings.model, "-f", wavPath, "-l", "auto", "-oj", "-of", outputBase, "-np"],
+        { signal, maxBuffer: MAX_OUTPUT_BYTES }
+    );
+
+    const output: WhisperCppOutput = JSON.parse(fs.readFileSync(`${outputBase}.json`, "utf-8"));
+    const segments = output.transcription
+        .map((segment) => ({
+            start: segment.offsets.from / 1000,
+            end: segment.offsets.to / 1000,
+            text: segment.text.trim(),
+        }))
+        .filter((segment) => segment.text);
+
+    return {
+        text: segments.map((segment) => segment.text).join(" "),
+        language: output.result?.language,
+        duration: segments.at(-1)?.end,
+        segments,
+    };
+}
+
+// faster-whisper through whisper-ctranslate2, which writes a VTT file named after the audio
+async function runFasterWhisper(
+    audioPath: string,
+    settings: TranscriptionSettings,
+    workDir: string,
+    signal?: AbortSignal
+): Promise<Transcript> {
+    const args = [audioPath, "--output_format", "vtt", "--output_dir", workDir, "--verbose", "False"];
+    if (settings.model) {
+        // A directory holds a converted model; anything else is a model name
+        const isDirectory = fs.existsSync(settings.model) && fs.statSync(settings.model).isDirectory();
+        args.push(isDirectory ? "--model_directory" : "--model", settings.model);
+    }
+    await execFileAsync(getBinary(settings), args, { signal, maxBuffer: MAX_OUTPUT_BYTES });
+
+    const vttPath = path.join(workDir, `${path.parse(audioPath).name}.vtt`);
+    const segments = parseVtt(fs.readFileSync(vttPath, "utf-8"));
+
+    return {
+        text: segments.map((segment) => segment.text).join(" "),
+        duration: segments.at(-1)?.end,
+        segments,
+    };
+}
+
+// Transcribe with a whisper binary on this machine. Local models have no upload
+// limit, so the whole file goes through in one run.
+export async function transcribeLocally(
+    audioPath: string,
+    settings: TranscriptionSettings,
+    signal?: AbortSignal
+): Promise<Transcript> {
+    const configError = getLocalTranscriptionError(settings);
+    if (configError) {
+        throw new Error(configError);
+    }
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "vnotes-whisper-"));
+    try {
+        return settings.backend === "whisper.cpp"
+            ? await runWhisperCpp(audioPath, settings, workDir, signal)
+            : await runFasterWhisper(audioPath, settings, workDir, signal);
+    } finally {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    }
+}
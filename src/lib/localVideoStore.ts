@@ -0,0 +1,105 @@
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { getVideoPath } from "./download";
+import { LOCAL_VIDEO_ID_PREFIX } from "./localVideos";
+import { getMediaDuration, probeMedia } from "./media";
+import { readVideoMetadata, saveVideoMetadata } from "./metadataStore";
+
+const execAsync = promisify(exec);
+
+const VIDEOS_DIR = path.join(process.cwd(), "public", "videos");
+
+// Codecs browsers play from an MP4 container; anything else is transcoded
+const PLAYABLE_VIDEO_CODECS = ["h264", "vp9", "av1"];
+const PLAYABLE_AUDIO_CODECS = ["aac", "mp3", "opus"];
+
+// Turn an upload into the .mp4 the player and summarize pipeline expect:
+// playable MP4s are kept as they are, playable streams in another container
+// are copied into MP4, and anything else is re-encoded to H.264/AAC
+async function convertToMp4(uploadPath: string, fileName: string, outputPath: string) {
+    const { videoCodec, audioCodec, formats } = await probeMedia(uploadPath);
+    if (!videoCodec) {
+        throw new Error("The file has no video track");
+    }
+
+    const playable =
+        PLAYABLE_VIDEO_CODECS.includes(videoCodec) &&
+        (!audioCodec || PLAYABLE_AUDIO_CODECS.includes(audioCodec));
+    if (playable && formats.includes("mp4") && fileName.toLowerCase().endsWith(".mp4")) {
+        fs.renameSync(uploadPath, outputPath);
+        return;
+    }
+
+    // Unique, so two uploads of the same file converting at once don't write
+    // into one partial file
+    const partialPath = `${outputPath}.${crypto.randomUUID()}.part`;
+    const codecArgs = playable
+        ? "-c copy"
+        : "-c:v libx264 -preset veryfast -crf 23 -c:a aac -b:a 128k";
+    try {
+        await execAsync(
+            `ffmpeg -i "${uploadPath}" ${codecArgs} -movflags +faststart -f mp4 -y "${partialPath}"`,
+            { maxBuffer: 16 * 1024 * 1024 }
+        );
+        fs.renameSync(partialPath, outputPath);
+    } finally {
+        fs.rmSync(partialPath, { force: true });
+    }
+}
+
+// Store an uploaded video under an id derived from its content, so the same
+// file uploaded twice reuses the first copy. The file name becomes its title.
+export async function importLocalVideo(
+    body: ReadableStream<Uint8Array>,
+    fileName: string
+): Promise<{ videoId: string; videoPath: string }> {
+    if (!fs.existsSync(VIDEOS_DIR)) {
+        fs.mkdirSync(VIDEOS_DIR, { recursive: true });
+    }
+
+    // Hash while streaming to disk; large recordings never sit in memory
+    const uploadPath = path.join(VIDEOS_DIR, `upload-${crypto.randomUUID()}.part`);
+    const hash = crypto.createHash("sha256");
+
+    try {
+        await pipeline(
+            Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+            async function* (source) {
+                for await (const chunk of source) {
+                    hash.update(chunk);
+                    yield chunk;
+                }
+            },
+            fs.createWriteStream(uploadPath)
+        );
+
+        const videoId = `${LOCAL_VIDEO_ID_PREFIX}${hash.digest("hex").slice(0, 16)}`;
+        const outputPath = getVideoPath(videoId);
+        if (!fs.existsSync(outputPath)) {
+            await convertToMp4(uploadPath, fileName, outputPath);
+        }
+
+        if (!readVideoMetadata(videoId)) {
+            saveVideoMetadata({
+                videoId,
+                title: path.parse(fileName).name,
+                channel: "",
+                duration: await getMediaDuration(outputPath),
+                description: "",
+                thumbnailUrl: null,
+                publishDate: null,
+                chapters: [],
+            });
+        }
+
+        return { videoId, videoPath: `/videos/${path.basename(outputPath)}` };
+    } finally {
+        fs.rmSync(uploadPath, { force: true });
+    }
+}
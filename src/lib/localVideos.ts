@@ -0,0 +1,45 @@
+// Uploaded files are stored with the YouTube downloads under an id derived
+// from their content, prefixed so it can't be mistaken for a YouTube id
+export const LOCAL_VIDEO_ID_PREFIX = "local-";
+
+export const LOCAL_VIDEO_EXTENSIONS = [".mp4", ".mkv", ".webm"];
+
+export function isLocalVideoId(videoId: string): boolean {
+    return videoId.startsWith(LOCAL_VIDEO_ID_PREFIX);
+}
+
+export function isSupportedVideoFile(fileName: string): boolean {
+    const lower = fileName.toLowerCase();
+    return LOCAL_VIDEO_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
+// Upload a video file, reporting the fraction sent so far. The server may
+// still take a while to convert the file after the last byte is sent.
+export function uploadLocalVideo(
+    file: File,
+    onProgress: (fraction: number) => void
+): Promise<{ videoId: string; videoPath: string }> {
+    // fetch can't report upload progress
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open("POST", `/api/videos/upload?name=${encodeURIComponent(file.name)}`);
+        xhr.setRequestHeader("Content-Type", "application/octet-stream");
+        xhr.upload.onprogress = (event) => {
+            if (event.lengthComputable) onProgress(event.loaded / event.total);
+        };
+        xhr.onload = () => {
+            try {
+                const data = JSON.parse(xhr.responseText);
+                if (xhr.status >= 400) {
+                    reject(new Error(data.error || `Upload failed with status ${xhr.status}`));
+                } else {
+                    resolve({ videoId: data.videoId, videoPath: data.videoPath });
+                }
+            } catch {
+                reject(new Error(`Upload failed with status ${xhr.status}`));
+            }
+        };
+        xhr.onerror = () => reject(new Error("Upload failed"));
+        xhr.send(file);
+    });
+}
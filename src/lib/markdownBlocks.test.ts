@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { parseInlineMarkdown, parseMarkdownToBlocks } from "./markdownBlocks";
+
+describe("parseInlineMarkdown", () => {
+    it("parses bold and italic text", () => {
+        expect(parseInlineMarkdown("a **b** _c_")).toEqual([
+            { type: "text", text: "a ", styles: {} },
+            { type: "text", text: "b", styles: { bold: true } },
+            { type: "text", text: " ", styles: {} },
+            { type: "text", text: "c", styles: { italic: true } },
+        ]);
+    });
+
+    it("turns timestamps into video timestamps, including past 1:40:00", () => {
+        expect(parseInlineMarkdown("At [2:15] and [1:40:05].", "abc")).toEqual([
+            { type: "text", text: "At ", styles: {} },
+            { type: "videoTimestamp", props: { videoId: "abc", time: 135 } },
+            { type: "text", text: " and ", styles: {} },
+            { type: "videoTimestamp", props: { videoId: "abc", time: 6005 } },
+            { type: "text", text: ".", styles: {} },
+        ]);
+    });
+
+    it("leaves timestamps as text without a video", () => {
+        expect(parseInlineMarkdown("[2:15]")).toEqual([{ type: "text", text: "[2:15]", styles: {} }]);
+    });
+
+    it("keeps brackets that aren't timestamps", () => {
+        const content = parseInlineMarkdown("[note]", "abc");
+
+        expect(content.every((item) => item.type === "text")).toBe(true);
+        expect(content.map((item) => (item.type === "text" ? item.text : "")).join("")).toBe("[note]");
+    });
+});
+
+describe("parseMarkdownToBlocks", () => {
+    it("parses headings, list items and paragraphs", () => {
+        const blocks = parseMarkdownToBlocks("## [1:40:05] Title\n\n- one\n1. two\nplain", "abc");
+
+        expect(blocks.map((block) => block.type)).toEqual([
+            "heading",
+            "bulletListItem",
+            "numberedListItem",
+            "paragraph",
+        ]);
+        expect(blocks[0]).toEqual({
+            type: "heading",
+            props: { level: 2 },
+            content: [
+                { type: "videoTimestamp", props: { videoId: "abc", time: 6005 } },
+                { type: "text", text: " Title", styles: {} },
+            ],
+        });
+    });
+
+    it("caps heading levels at 3", () => {
+        expect(parseMarkdownToBlocks("##### Deep")[0]).toMatchObject({ props: { level: 3 } });
+    });
+});
@@ -0,0 +1,130 @@
+import { parseTime, TIMESTAMP_PATTERN } from "./time";
+
+// The markdown the models write (summaries, answers) as BlockNote blocks:
+// headings, bullet and numbered items and paragraphs, with bold, italic and
+// cited timestamps inline
+
+export type InlineContent =
+    | { type: "text"; text: string; styles: Record<string, boolean> }
+    | { type: "videoTimestamp"; props: { videoId: string; time: number } };
+
+export type MarkdownBlock =
+    | { type: "heading"; props: { level: 1 | 2 | 3 }; content: InlineContent[] }
+    | { type: "bulletListItem" | "numberedListItem" | "paragraph"; content: InlineContent[] };
+
+const LEADING_TIMESTAMP = new RegExp(`^${TIMESTAMP_PATTERN.source}`);
+
+// Parse inline markdown (bold, italic) into BlockNote styled text. With a
+// videoId, [m:ss] and [h:mm:ss] become timestamps that seek that video.
+export function parseInlineMarkdown(text: string, videoId?: string): InlineContent[] {
+    const result: InlineContent[] = [];
+    let remaining = text;
+
+    while (remaining.length > 0) {
+        const timestampMatch = videoId ? remaining.match(LEADING_TIMESTAMP) : null;
+        if (timestampMatch) {
+            result.push({
+                type: "videoTimestamp",
+                props: { videoId: videoId!, time: parseTime(timestampMatch[1]) },
+            });
+            remaining = remaining.slice(timestampMatch[0].length);
+            continue;
+        }
+
+        // Match **bold** or __bold__
+        const boldMatch = remaining.match(/^(\*\*|__)(.+?)\1/);
+        if (boldMatch) {
+            result.push({ type: "text", text: boldMatch[2], styles: { bold: true } });
+            remaining = remaining.slice(boldMatch[0].length);
+            continue;
+        }
+
+        // Match *italic* or _italic_
+        const italicMatch = remaining.match(/^(\*|_)(.+?)\1/);
+        if (italicMatch) {
+            result.push({ type: "text", text: italicMatch[2], styles: { italic: true } });
+            remaining = remaining.slice(italicMatch[0].length);
+            continue;
+        }
+
+        // Find next special character
+        const nextSpecial = remaining.search(videoId ? /[\*_\[]/ : /[\*_]/);
+        if (nextSpecial === -1) {
+            // No more special characters
+            result.push({ type: "text", text: remaining, styles: {} });
+            break;
+        } else if (nextSpecial === 0) {
+            // Special char at start but didn't match pattern, treat as text
+            result.push({ type: "text", text: remaining[0], styles: {} });
+            remaining = remaining.slice(1);
+        } else {
+            // Add plain text before special char
+            result.push({ type: "text", text: remaining.slice(0, nextSpecial), styles: {} });
+            remaining = remaining.slice(nextSpecial);
+        }
+    }
+
+    return result;
+}
+
+// Parse markdown text into BlockNote block array
+export function parseMarkdownToBlocks(markdown: string, videoId?: string): MarkdownBlock[] {
+    const lines = markdown.split("\n");
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        // Skip empty lines
+        if (line.trim() === "") {
+            i++;
+            continue;
+        }
+
+        // Headings: # to ###### (h1 to h6, but BlockNote only supports 1-3)
+        const headingMatch = line.match(/^(#{1,6}) /);
+        if (headingMatch) {
+            const hashes = headingMatch[1].length;
+            // BlockNote only supports levels 1-3, so cap at 3
+            const level = Math.min(hashes, 3) as 1 | 2 | 3;
+            blocks.push({
+                type: "heading",
+                props: { level },
+                content: parseInlineMarkdown(line.slice(hashes + 1).trim(), videoId),
+            });
+            i++;
+            continue;
+        }
+
+        // Bullet list item: - item or * item
+        if (line.match(/^[\-\*] /)) {
+            blocks.push({
+                type: "bulletListItem",
+                content: parseInlineMarkdown(line.slice(2).trim(), videoId),
+            });
+            i++;
+            continue;
+        }
+
+        // Numbered list item: 1. item
+        if (line.match(/^\d+\. /)) {
+            const content = line.replace(/^\d+\. /, "").trim();
+            blocks.push({
+                type: "numberedListItem",
+                content: parseInlineMarkdown(content, videoId),
+            });
+            i++;
+            continue;
+        }
+
+        // Regular paragraph
+        blocks.push({
+            type: "paragraph",
+            content: parseInlineMarkdown(line.trim(), videoId),
+        });
+        i++;
+    }
+
+    return blocks;
+}
@@ -0,0 +1,34 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+
+const execAsync = promisify(exec);
+
+// Duration of an audio or video file in seconds, read with ffprobe
+export async function getMediaDuration(mediaPath: string): Promise<number> {
+    const { stdout } = await execAsync(
+        `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${mediaPath}"`
+    );
+    return parseFloat(stdout.trim());
+}
+
+// Codec of the first video and audio stream (null when there is none), and
+// ffprobe's container format names, e.g. "mov,mp4,m4a,3gp,3g2,mj2"
+export async function probeMedia(mediaPath: string): Promise<{
+    videoCodec: string | null;
+    audioCodec: string | null;
+    formats: string[];
+}> {
+    const { stdout } = await execAsync(
+        `ffprobe -v error -show_entries stream=codec_type,codec_name:format=format_name -of json "${mediaPath}"`
+    );
+    const probe: {
+        streams?: { codec_type: string; codec_name: string }[];
+        format?: { format_name?: string };
+    } = JSON.parse(stdout);
+    const streams = probe.streams ?? [];
+    return {
+        videoCodec: streams.find((stream) => stream.codec_type === "video")?.codec_name ?? null,
+        audioCodec: streams.find((stream) => stream.codec_type === "audio")?.codec_name ?? null,
+        formats: (probe.format?.format_name ?? "").split(","),
+    };
+}
@@ -0,0 +1,79 @@
+import path from "path";
+import fs from "fs";
+import Innertube from "youtubei.js";
+import type { VideoMetadata } from "./videoMetadata";
+import { writeJsonAtomic } from "./jsonFile";
+
+// Metadata is stored next to the video as {videoId}.metadata.json
+const VIDEOS_DIR = path.join(process.cwd(), "public", "videos");
+
+function getMetadataPath(videoId: string): string {
+    return path.join(VIDEOS_DIR, `${videoId}.metadata.json`);
+}
+
+// Cached metadata, or null if it hasn't been fetched yet
+export function readVideoMetadata(videoId: string): VideoMetadata | null {
+    const metadataPath = getMetadataPath(videoId);
+    if (!fs.existsSync(metadataPath)) {
+        return null;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(metadataPath, "utf-8"));
+    } catch {
+        return null;
+    }
+}
+
+// Only the full video info carries chapters (in the player bar markers) and
+// the publish date, not the basic info used for downloading
+async function fetchVideoMetadata(videoId: string, yt?: Innertube): Promise<VideoMetadata> {
+    const innertube = yt ?? (await Innertube.create());
+    const info = await innertube.getInfo(videoId);
+    const { basic_info } = info;
+    const duration = basic_info.duration ?? 0;
+
+    const markers = info.player_overlays?.decorated_player_bar?.player_bar?.markers_map ?? [];
+    const chapters = markers.find((marker) => marker.value.chapters)?.value.chapters ?? [];
+
+    // Thumbnails are listed largest first
+    const thumbnail = basic_info.thumbnail?.[0];
+
+    return {
+        videoId,
+        title: basic_info.title ?? "",
+        channel: basic_info.channel?.name ?? basic_info.author ?? "",
+        duration,
+        description: basic_info.short_description ?? "",
+        thumbnailUrl: thumbnail?.url ?? null,
+        publishDate: info.primary_info?.published?.toString() || null,
+        chapters: chapters.map((chapter, index) => ({
+            title: chapter.title.toString(),
+            start: chapter.time_range_start_millis / 1000,
+            end:
+                index + 1 < chapters.length
+                    ? chapters[index + 1].time_range_start_millis / 1000
+                    : duration,
+        })),
+    };
+}
+
+// Metadata for a video, fetched from YouTube and cached the first time
+export async function getVideoMetadata(videoId: string, yt?: Innertube): Promise<VideoMetadata> {
+    const cached = readVideoMetadata(videoId);
+    if (cached) {
+        return cached;
+    }
+
+    const metadata = await fetchVideoMetadata(videoId, yt);
+    saveVideoMetadata(metadata);
+    return metadata;
+}
+
+// Cache metadata for a video, e.g. one uploaded from disk
+export function saveVideoMetadata(metadata: VideoMetadata) {
+    if (!fs.existsSync(VIDEOS_DIR)) {
+        fs.mkdirSync(VIDEOS_DIR, { recursive: true });
+    }
+    const metadataPath = getMetadataPath(metadata.videoId);
+    writeJsonAtomic(metadataPath, metadata);
+}
@@ -0,0 +1,71 @@
+import os from "os";
+import path from "path";
+import fs from "fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The store resolves .vnotes from the working directory when it loads, so
+// each test loads a fresh copy inside its own temp directory
+let workDir: string;
+let store: typeof import("./notesStore");
+
+beforeEach(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "vnotes-notes-"));
+    vi.spyOn(process, "cwd").mockReturnValue(workDir);
+    vi.resetModules();
+    store = await import("./notesStore");
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+const blocks = [{ id: "b1", type: "paragraph", content: [], children: [] }];
+
+describe("updateNote", () => {
+    it("increments the revision when the content changes", () => {
+        const note = store.createNote({ title: "Page", parentId: null });
+        expect(note.revision).toBe(1);
+
+        const result = store.updateNote(note.id, { blocks, baseRevision: 1 });
+        expect(result.status).toBe("ok");
+        expect(store.readNote(note.id)).toMatchObject({ revision: 2, blocks });
+    });
+
+    it("rejects content based on a stale revision", () => {
+        const note = store.createNote({ title: "Page", parentId: null });
+        store.updateNote(note.id, { blocks, baseRevision: 1 });
+
+        const result = store.updateNote(note.id, { blocks: [], baseRevision: 1 });
+        expect(result).toMatchObject({ status: "conflict", note: { revision: 2, blocks } });
+        expect(store.readNote(note.id)?.blocks).toEqual(blocks);
+    });
+
+    it("applies renames without a revision", () => {
+        const note = store.createNote({ title: "Page", parentId: null });
+
+        expect(store.updateNote(note.id, { title: "Renamed" })).toMatchObject({
+            status: "ok",
+            note: { title: "Renamed", revision: 1 },
+        });
+    });
+
+    it("refuses to move a page under its own descendant", () => {
+        const parent = store.createNote({ title: "Parent", parentId: null });
+        const child = store.createNote({ title: "Child", parentId: parent.id });
+
+        expect(store.updateNote(parent.id, { parentId: child.id }).status).toBe("invalid-parent");
+    });
+});
+
+describe("deleteNote", () => {
+    it("removes the page and all of its descendants", () => {
+        const root = store.createNote({ title: "Root", parentId: null });
+        const child = store.createNote({ title: "Child", parentId: root.id });
+        const grandchild = store.createNote({ title: "Grandchild", parentId: child.id });
+        const other = store.createNote({ title: "Other", parentId: null });
+
+        expect(store.deleteNote(root.id).sort()).toEqual([root.id, child.id, grandchild.id].sort());
+        expect(store.listPages().map((page) => page.id)).toEqual([other.id]);
+    });
+});
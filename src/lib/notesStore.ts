@@ -0,0 +1,201 @@
+import path from "path";
+import fs from "fs";
+import type { Blocks, Page } from "./pages";
+import { getYouTubeVideoId } from "./youtubeUrl";
+import { writeJsonAtomic } from "./jsonFile";
+
+// Server-side storage for pages: one JSON file per page under .vnotes/notes
+const CONFIG_DIR = path.join(process.cwd(), ".vnotes");
+const NOTES_DIR = path.join(CONFIG_DIR, "notes");
+
+export interface StoredNote extends Page {
+    blocks: Blocks;
+}
+
+export type UpdateNoteResult =
+    | { status: "ok"; note: StoredNote }
+    | { status: "not-found" }
+    | { status: "conflict"; note: StoredNote }
+    | { status: "invalid-parent" };
+
+function ensureNotesDir() {
+    if (!fs.existsSync(NOTES_DIR)) {
+        fs.mkdirSync(NOTES_DIR, { recursive: true });
+    }
+}
+
+function getNotePath(pageId: string): string | null {
+    // Page ids are generated UUIDs; reject anything that could escape the directory
+    if (!/^[A-Za-z0-9_-]+$/.test(pageId)) {
+        return null;
+    }
+    return path.join(NOTES_DIR, `${pageId}.json`);
+}
+
+function writeNote(note: StoredNote) {
+    ensureNotesDir();
+    const notePath = getNotePath(note.id);
+    if (!notePath) {
+        throw new Error(`Invalid page id: ${note.id}`);
+    }
+    writeJsonAtomic(notePath, note);
+}
+
+export function toPage(note: StoredNote): Page {
+    return {
+        id: note.id,
+        title: note.title,
+        parentId: note.parentId,
+        createdAt: note.createdAt,
+        updatedAt: note.updatedAt,
+        revision: note.revision,
+    };
+}
+
+export function readNote(pageId: string): StoredNote | null {
+    const notePath = getNotePath(pageId);
+    if (!notePath || !fs.existsSync(notePath)) {
+        return null;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(notePath, "utf-8"));
+    } catch {
+        return null;
+    }
+}
+
+export function listNotes(): StoredNote[] {
+    ensureNotesDir();
+    return fs
+        .readdirSync(NOTES_DIR)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => readNote(path.basename(file, ".json")))
+        .filter((note): note is StoredNote => note !== null);
+}
+
+export function listPages(): Page[] {
+    return listNotes().map(toPage);
+}
+
+export function createNote(input: {
+    id?: string;
+    title: string;
+    parentId: string | null;
+    blocks?: Blocks;
+    createdAt?: number;
+    updatedAt?: number;
+}): StoredNote {
+    const now = Date.now();
+    const note: StoredNote = {
+        id: input.id || crypto.randomUUID(),
+        title: input.title,
+        parentId: input.parentId,
+        createdAt: input.createdAt || now,
+        updatedAt: input.updatedAt || now,
+        revision: 1,
+        blocks: input.blocks || [],
+    };
+    writeNote(note);
+    return note;
+}
+
+function isAncestorOrSelf(pageId: string, candidateParentId: string): boolean {
+    let current: string | null = candidateParentId;
+    const seen = new Set<string>();
+    while (current && !seen.has(current)) {
+        if (current === pageId) return true;
+        seen.add(current);
+        current = readNote(current)?.parentId ?? null;
+    }
+    return false;
+}
+
+// Content updates must name the revision they were based on; metadata
+// updates (rename, move) apply on top of whatever is current
+export function updateNote(
+    pageId: string,
+    changes: {
+        title?: string;
+        parentId?: string | null;
+        blocks?: Blocks;
+        baseRevision?: number;
+    }
+): UpdateNoteResult {
+    const note = readNote(pageId);
+    if (!note) {
+        return { status: "not-found" };
+    }
+
+    if (changes.blocks !== undefined && changes.baseRevision !== note.revision) {
+        return { status: "conflict", note };
+    }
+
+    if (changes.parentId) {
+        if (!readNote(changes.parentId) || isAncestorOrSelf(pageId, changes.parentId)) {
+            return { status: "invalid-parent" };
+        }
+    }
+
+    const updated: StoredNote = {
+        ...note,
+        ...(changes.title !== undefined && { title: changes.title }),
+        ...(changes.parentId !== undefined && { parentId: changes.parentId }),
+        ...(changes.blocks !== undefined && {
+            blocks: changes.blocks,
+            revision: note.revision + 1,
+        }),
+        updatedAt: Date.now(),
+    };
+    writeNote(updated);
+    return { status: "ok", note: updated };
+}
+
+// Delete a page and all of its descendants, returning the removed ids
+export function deleteNote(pageId: string): string[] {
+    const notes = listNotes();
+    const removed: string[] = [];
+    const queue = [pageId];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (removed.includes(id)) continue;
+        removed.push(id);
+        queue.push(...notes.filter((note) => note.parentId === id).map((note) => note.id));
+    }
+
+    for (const id of removed) {
+        const notePath = getNotePath(id);
+        if (notePath && fs.existsSync(notePath)) {
+            fs.unlinkSync(notePath);
+        }
+    }
+    return removed;
+}
+
+// Blocks of a type anywhere in the tree, nested ones included
+export function collectBlocks(blocks: Blocks, type: string): Blocks {
+    return blocks.flatMap((block) => [
+        ...(block.type === type ? [block] : []),
+        ...collectBlocks(block.children || [], type),
+    ]);
+}
+
+// Map each video id to the pages whose video blocks embed it
+export function findPagesEmbeddingVideos(videoIds: string[]): Record<string, Page[]> {
+    const result: Record<string, Page[]> = Object.fromEntries(videoIds.map((id) => [id, []]));
+
+    for (const note of listNotes()) {
+        const embeddedIds: string[] = [
+            ...collectBlocks(note.blocks, "youtube").map((block) =>
+                getYouTubeVideoId(block.props?.url || "")
+            ),
+            ...collectBlocks(note.blocks, "localVideo").map((block) => block.props?.videoId),
+        ].filter(Boolean);
+        for (const videoId of videoIds) {
+            if (embeddedIds.includes(videoId)) {
+                result[videoId].push(toPage(note));
+            }
+        }
+    }
+
+    return result;
+}
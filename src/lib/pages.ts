@@ -0,0 +1,245 @@
+import { useSyncExternalStore } from "react";
+import { readJson } from "./apiClient";
+
+export interface Page {
+    id: string;
+    title: string;
+    parentId: string | null;
+    createdAt: number;
+    updatedAt: number;
+    // Incremented on every content save; used to detect conflicting edits
+    revision: number;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Blocks = any[];
+
+export type SaveResult =
+    | { status: "saved"; page: Page }
+    | { status: "conflict"; page: Page; blocks: Blocks };
+
+export const UNTITLED_PAGE = "Untitled";
+
+// Keys used before notes moved to the /api/notes file store
+const LEGACY_PAGES_KEY = "vnotes-pages";
+const LEGACY_BLOCKS_KEY = "vnotes-blocks";
+// Fixed so a retried migration finds the page it already uploaded
+const LEGACY_NOTES_PAGE_ID = "legacy-my-notes";
+
+function getLegacyPageBlocksKey(pageId: string) {
+    return `vnotes-page-${pageId}`;
+}
+
+interface PagesState {
+    pages: Page[];
+    isLoaded: boolean;
+}
+
+let state: PagesState = { pages: [], isLoaded: false };
+const listeners = new Set<() => void>();
+let loadPromise: Promise<Page[]> | null = null;
+
+function setPages(pages: Page[]) {
+    state = { pages, isLoaded: true };
+    listeners.forEach((listener) => listener());
+}
+
+function upsertPage(page: Page) {
+    const exists = state.pages.some((p) => p.id === page.id);
+    setPages(
+        exists
+            ? state.pages.map((p) => (p.id === page.id ? page : p))
+            : [...state.pages, page]
+    );
+}
+
+function readLegacyJson<T>(key: string): T | null {
+    const saved = localStorage.getItem(key);
+    if (!saved) return null;
+    try {
+        return JSON.parse(saved);
+    } catch {
+        return null;
+    }
+}
+
+// Upload notes that still live in browser localStorage, then clear them
+async function migrateLocalStorage() {
+    const legacyPages =
+        readLegacyJson<Omit<Page, "revision">[]>(LEGACY_PAGES_KEY) || [];
+    const legacyBlocks = readLegacyJson<Blocks>(LEGACY_BLOCKS_KEY);
+
+    const uploads = legacyPages.map((page) => ({
+        ...page,
+        blocks: readLegacyJson<Blocks>(getLegacyPageBlocksKey(page.id)) || [],
+    }));
+    if (legacyBlocks) {
+        uploads.push({
+            id: LEGACY_NOTES_PAGE_ID,
+            title: "My notes",
+            parentId: null,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            blocks: legacyBlocks,
+        });
+    }
+    if (uploads.length === 0) return;
+
+    for (const upload of uploads) {
+        const response = await fetch("/api/notes", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(upload),
+        });
+        // Already uploaded by an earlier attempt that failed part way
+        if (response.status === 409) continue;
+        await readJson(response);
+    }
+
+    legacyPages.forEach((page) => localStorage.removeItem(getLegacyPageBlocksKey(page.id)));
+    localStorage.removeItem(LEGACY_PAGES_KEY);
+    localStorage.removeItem(LEGACY_BLOCKS_KEY);
+}
+
+export async function refreshPages(): Promise<Page[]> {
+    const data = await readJson<{ pages: Page[] }>(await fetch("/api/notes"));
+    setPages(data.pages);
+    return data.pages;
+}
+
+// Load the page list once (migrating old local notes first); later calls reuse it
+export function loadPages(): Promise<Page[]> {
+    if (!loadPromise) {
+        loadPromise = migrateLocalStorage()
+            .catch((e) => console.error("Failed to migrate local notes:", e))
+            .then(refreshPages)
+            .catch((e) => {
+                loadPromise = null;
+                throw e;
+            });
+    }
+    return loadPromise;
+}
+
+export async function createPage({
+    title = UNTITLED_PAGE,
+    parentId = null,
+}: { title?: string; parentId?: string | null } = {}): Promise<Page> {
+    const data = await readJson<{ page: Page }>(
+        await fetch("/api/notes", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ title, parentId }),
+        })
+    );
+    upsertPage(data.page);
+    return data.page;
+}
+
+export async function updatePage(
+    pageId: string,
+    changes: Partial<Pick<Page, "title" | "parentId">>
+): Promise<Page> {
+    const data = await readJson<{ page: Page }>(
+        await fetch(`/api/notes/${pageId}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(changes),
+        })
+    );
+    upsertPage(data.page);
+    return data.page;
+}
+
+// Re-parent a page; refuses moves that would put a page inside itself
+export async function movePage(pageId: string, parentId: string | null): Promise<boolean> {
+    if (parentId === pageId) return false;
+    if (parentId && getAncestors(state.pages, parentId).some((page) => page.id === pageId)) {
+        return false;
+    }
+    await updatePage(pageId, { parentId });
+    return true;
+}
+
+// Delete a page together with all of its descendants
+export async function deletePage(pageId: string) {
+    const data = await readJson<{ deleted: string[] }>(
+        await fetch(`/api/notes/${pageId}`, { method: "DELETE" })
+    );
+    const deleted = new Set(data.deleted);
+    setPages(state.pages.filter((page) => !deleted.has(page.id)));
+}
+
+export async function loadPageContent(
+    pageId: string
+): Promise<{ page: Page; blocks: Blocks } | null> {
+    const response = await fetch(`/api/notes/${pageId}`);
+    if (response.status === 404) return null;
+    return readJson(response);
+}
+
+export async function savePageBlocks(
+    pageId: string,
+    blocks: Blocks,
+    baseRevision: number
+): Promise<SaveResult> {
+    const response = await fetch(`/api/notes/${pageId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ blocks, baseRevision }),
+    });
+    if (response.status === 409) {
+        const data = await response.json();
+        return { status: "conflict", page: data.page, blocks: data.blocks };
+    }
+    const data = await readJson<{ page: Page }>(response);
+    upsertPage(data.page);
+    return { status: "saved", page: data.page };
+}
+
+export function getChildren(pages: Page[], parentId: string | null): Page[] {
+    return pages
+        .filter((page) => page.parentId === parentId)
+        .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function getDescendants(pages: Page[], pageId: string): Page[] {
+    return getChildren(pages, pageId).flatMap((child) => [
+        child,
+        ...getDescendants(pages, child.id),
+    ]);
+}
+
+// Ancestors ordered from the root down to the page's direct parent
+export function getAncestors(pages: Page[], pageId: string): Page[] {
+    const byId = new Map(pages.map((page) => [page.id, page]));
+    const ancestors: Page[] = [];
+    let current = byId.get(pageId);
+    while (current?.parentId) {
+        const parent = byId.get(current.parentId);
+        if (!parent || ancestors.includes(parent)) break;
+        ancestors.unshift(parent);
+        current = parent;
+    }
+    return ancestors;
+}
+
+const SERVER_STATE: PagesState = { pages: [], isLoaded: false };
+
+function subscribePages(onChange: () => void) {
+    listeners.add(onChange);
+    loadPages().catch((e) => console.error("Failed to load pages:", e));
+    // Pick up changes made in other tabs when this one regains focus
+    const handleFocus = () => {
+        refreshPages().catch((e) => console.error("Failed to refresh pages:", e));
+    };
+    window.addEventListener("focus", handleFocus);
+    return () => {
+        listeners.delete(onChange);
+        window.removeEventListener("focus", handleFocus);
+    };
+}
+
+export function usePages(): PagesState {
+    return useSyncExternalStore(subscribePages, () => state, () => SERVER_STATE);
+}
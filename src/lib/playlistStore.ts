@@ -0,0 +1,148 @@
+import path from "path";
+import fs from "fs";
+import Innertube, { YTNodes } from "youtubei.js";
+import { enqueueJob, readJob } from "./jobQueue";
+import { createNote, readNote } from "./notesStore";
+import type { Job, MediaOptions, SummaryOptions } from "./jobs";
+import type { PlaylistImport, PlaylistImportResult, PlaylistProgress } from "./playlists";
+import { writeJsonAtomic } from "./jsonFile";
+
+// One record per imported playlist under .vnotes/playlists, remembering its
+// pages so a re-import only adds what is new
+const CONFIG_DIR = path.join(process.cwd(), ".vnotes");
+const PLAYLISTS_DIR = path.join(CONFIG_DIR, "playlists");
+
+function getPlaylistPath(playlistId: string): string | null {
+    if (!/^[A-Za-z0-9_-]+$/.test(playlistId)) {
+        return null;
+    }
+    return path.join(PLAYLISTS_DIR, `${playlistId}.json`);
+}
+
+export function readPlaylistImport(playlistId: string): PlaylistImport | null {
+    const playlistPath = getPlaylistPath(playlistId);
+    if (!playlistPath || !fs.existsSync(playlistPath)) {
+        return null;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(playlistPath, "utf-8"));
+    } catch {
+        return null;
+    }
+}
+
+function writePlaylistImport(playlist: PlaylistImport) {
+    const playlistPath = getPlaylistPath(playlist.playlistId);
+    if (!playlistPath) {
+        throw new Error(`Invalid playlist id: ${playlist.playlistId}`);
+    }
+    if (!fs.existsSync(PLAYLISTS_DIR)) {
+        fs.mkdirSync(PLAYLISTS_DIR, { recursive: true });
+    }
+    writeJsonAtomic(playlistPath, playlist);
+}
+
+// Title and playable videos of a playlist, following continuations past the
+// first page of results. Deleted and private videos are skipped.
+async function fetchPlaylist(
+    playlistId: string
+): Promise<{ title: string; videos: { videoId: string; title: string }[] }> {
+    const yt = await Innertube.create();
+    let page = await yt.getPlaylist(playlistId);
+    const title = page.info.title || playlistId;
+
+    const videos: { videoId: string; title: string }[] = [];
+    while (true) {
+        for (const item of page.items) {
+            if (item.is(YTNodes.PlaylistVideo) && item.is_playable) {
+                videos.push({ videoId: item.id, title: item.title.toString() });
+            }
+        }
+        if (!page.has_continuation) break;
+        page = await page.getContinuation();
+    }
+    return { title, videos };
+}
+
+// Create (or extend) the playlist's pages and queue each new video's jobs in
+// playlist order
+export async function importPlaylist(
+    playlistId: string,
+    options: MediaOptions,
+    summary: SummaryOptions | null
+): Promise<PlaylistImportResult> {
+    const fetched = await fetchPlaylist(playlistId);
+
+    // Start over if the parent page has been deleted since the last import
+    const previous = readPlaylistImport(playlistId);
+    const existing = previous && readNote(previous.pageId) ? previous : null;
+
+    const now = Date.now();
+    const playlist: PlaylistImport = existing
+        ? { ...existing, title: fetched.title, options, updatedAt: now }
+        : {
+              playlistId,
+              title: fetched.title,
+              pageId: createNote({ title: fetched.title, parentId: null }).id,
+              options,
+              videos: [],
+              createdAt: now,
+              updatedAt: now,
+          };
+
+    let added = 0;
+    for (const video of fetched.videos) {
+        if (playlist.videos.some((imported) => imported.videoId === video.videoId)) {
+            continue;
+        }
+
+        const downloadJob = enqueueJob("download", video.videoId, options);
+        const summaryJob = summary ? enqueueJob("summarize", video.videoId, options, summary) : null;
+
+        const page = createNote({
+            title: video.title || video.videoId,
+            parentId: playlist.pageId,
+            blocks: [
+                {
+                    type: "youtube",
+                    props: {
+                        url: `https://www.youtube.com/watch?v=${video.videoId}&list=${playlistId}`,
+                        ...options,
+                        // The player inserts this summary once it finishes
+                        summaryJobId: summaryJob?.id ?? "",
+                    },
+                },
+            ],
+        });
+
+        playlist.videos.push({
+            videoId: video.videoId,
+            title: video.title,
+            pageId: page.id,
+            downloadJobId: downloadJob.id,
+            summaryJobId: summaryJob?.id ?? null,
+        });
+        added++;
+        // Keep the record current so a failure part-way doesn't duplicate pages
+        writePlaylistImport(playlist);
+    }
+
+    writePlaylistImport(playlist);
+    return { playlist, added };
+}
+
+export function getPlaylistProgress(playlistId: string): PlaylistProgress | null {
+    const playlist = readPlaylistImport(playlistId);
+    if (!playlist) {
+        return null;
+    }
+
+    const jobs: Record<string, Job> = {};
+    for (const video of playlist.videos) {
+        for (const jobId of [video.downloadJobId, video.summaryJobId]) {
+            const job = jobId ? readJob(jobId) : null;
+            if (job) jobs[job.id] = job;
+        }
+    }
+    return { playlist, jobs };
+}
@@ -0,0 +1,55 @@
+import type { Job, MediaOptions, SummaryOptions } from "./jobs";
+import { readJson } from "./apiClient";
+
+export interface PlaylistVideo {
+    videoId: string;
+    title: string;
+    // Child page holding the video's YouTube block
+    pageId: string;
+    downloadJobId: string;
+    // Null when the import didn't ask for summaries
+    summaryJobId: string | null;
+}
+
+// A YouTube playlist imported as a parent page with one child page per video
+export interface PlaylistImport {
+    playlistId: string;
+    title: string;
+    pageId: string;
+    options: MediaOptions;
+    // In playlist order; re-imports append the videos added since
+    videos: PlaylistVideo[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface PlaylistImportResult {
+    playlist: PlaylistImport;
+    // How many videos this import added
+    added: number;
+}
+
+export interface PlaylistProgress {
+    playlist: PlaylistImport;
+    // The import's download and summarize jobs by id; pruned jobs are missing
+    jobs: Record<string, Job>;
+}
+
+// Import a playlist, or add the videos that are new since it was last imported.
+// Summaries are queued too when summary options are given.
+export async function importPlaylist(
+    url: string,
+    options: MediaOptions,
+    summary: SummaryOptions | null
+): Promise<PlaylistImportResult> {
+    const response = await fetch("/api/playlists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url, ...options, summarize: summary !== null, ...summary }),
+    });
+    return readJson(response);
+}
+
+export async function fetchPlaylistProgress(playlistId: string): Promise<PlaylistProgress> {
+    return readJson(await fetch(`/api/playlists/${playlistId}`));
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { searchPassages, toPassages } from "./questionAnswering";
+import type { TranscriptSegment } from "./transcript";
+
+function segment(start: number, text: string): TranscriptSegment {
+    return { start, end: start + 5, text };
+}
+
+describe("toPassages", () => {
+    it("groups consecutive segments into passages about a minute long", () => {
+        const passages = toPassages([
+            segment(0, "one"),
+            segment(30, "two"),
+            segment(65, "three"),
+            segment(200, "four"),
+        ]);
+
+        expect(passages.map((passage) => passage.start)).toEqual([0, 65, 200]);
+        expect(passages[0].segments.map((s) => s.text)).toEqual(["one", "two"]);
+    });
+
+    it("indexes words without stop words", () => {
+        expect(toPassages([segment(0, "What is the Mitochondria?")])[0].terms).toEqual(["mitochondria"]);
+    });
+});
+
+describe("searchPassages", () => {
+    const passages = toPassages([
+        segment(0, "Welcome to the course on cell biology"),
+        segment(120, "The mitochondria is the powerhouse of the cell"),
+        segment(240, "Photosynthesis happens in the chloroplast"),
+        segment(360, "Mitochondria produce ATP, and mitochondria have their own DNA"),
+        segment(480, "Thanks for watching"),
+    ]);
+
+    it("returns the matching passages in the order they occur", () => {
+        expect(searchPassages(passages, "what do mitochondria do?").map((p) => p.start)).toEqual([120, 360]);
+    });
+
+    it("keeps the best matches when more passages match than are sent", () => {
+        const many = toPassages(
+            Array.from({ length: 20 }, (_, i) => segment(i * 120, i === 15 ? "cell chloroplast" : "cell"))
+        );
+        const starts = searchPassages(many, "cell chloroplast").map((p) => p.start);
+
+        expect(starts).toHaveLength(8);
+        expect(starts).toContain(15 * 120);
+        expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    });
+
+    it("returns nothing when no words match", () => {
+        expect(searchPassages(passages, "quantum entanglement")).toEqual([]);
+        expect(searchPassages(passages, "what is the")).toEqual([]);
+    });
+});
@@ -0,0 +1,156 @@
+import fs from "fs";
+import { getAIClient } from "./ai";
+import { checkCachedData } from "./summarize";
+import { readVideoMetadata } from "./metadataStore";
+import { formatTime } from "./time";
+import type { Transcript, TranscriptSegment } from "./transcript";
+import type { ChatMessage } from "./ask";
+
+// Transcripts up to this length are sent whole; longer ones are searched
+// for the passages relevant to the question
+const FULL_TRANSCRIPT_CHARS = 12000;
+// Consecutive segments are grouped into passages about this long
+const PASSAGE_SECONDS = 60;
+const MAX_PASSAGES = 8;
+const MAX_VISUAL_ANALYSIS_CHARS = 4000;
+// Earlier turns sent along so follow-up questions make sense
+const MAX_HISTORY_MESSAGES = 10;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "by", "did", "do", "does", "for", "from",
+    "he", "her", "his", "how", "i", "in", "is", "it", "of", "on", "or", "she", "that",
+    "the", "they", "this", "to", "was", "were", "what", "when", "where", "which", "who",
+    "why", "with", "you",
+]);
+
+interface Passage {
+    start: number;
+    segments: TranscriptSegment[];
+    terms: string[];
+}
+
+function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+        (term) => !STOP_WORDS.has(term)
+    );
+}
+
+export function toPassages(segments: TranscriptSegment[]): Passage[] {
+    const passages: Passage[] = [];
+    for (const segment of segments) {
+        const current = passages[passages.length - 1];
+        if (current && segment.start - current.start < PASSAGE_SECONDS) {
+            current.segments.push(segment);
+            current.terms.push(...tokenize(segment.text));
+        } else {
+            passages.push({ start: segment.start, segments: [segment], terms: tokenize(segment.text) });
+        }
+    }
+    return passages;
+}
+
+// The passages that best match the query by BM25, in the order they occur
+export function searchPassages(passages: Passage[], query: string): Passage[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || passages.length === 0) return [];
+
+    const averageLength = passages.reduce((sum, passage) => sum + passage.terms.length, 0) / passages.length;
+    const documentFrequency = new Map(
+        queryTerms.map((term) => [term, passages.filter((passage) => passage.terms.includes(term)).length])
+    );
+
+    const scored = passages.map((passage) => {
+        let score = 0;
+        for (const term of queryTerms) {
+            const frequency = passage.terms.filter((t) => t === term).length;
+            if (frequency === 0) continue;
+            const df = documentFrequency.get(term)!;
+            const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+            score +=
+                (idf * frequency * (K1 + 1)) /
+                (frequency + K1 * (1 - B + (B * passage.terms.length) / (averageLength || 1)));
+        }
+        return { passage, score };
+    });
+
+    return scored
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_PASSAGES)
+        .map(({ passage }) => passage)
+        .sort((a, b) => a.start - b.start);
+}
+
+function formatSegments(segments: TranscriptSegment[]): string {
+    return segments.map((segment) => `[${formatTime(segment.start)}] ${segment.text.trim()}`).join("\n");
+}
+
+// Transcript lines to answer from: all of them for short videos, otherwise
+// the passages matching this question (and the previous one, for follow-ups)
+function retrieveTranscript(transcript: Transcript, query: string): string {
+    if (transcript.text.length <= FULL_TRANSCRIPT_CHARS) {
+        return formatSegments(transcript.segments);
+    }
+    const passages = searchPassages(toPassages(transcript.segments), query);
+    if (passages.length === 0) {
+        return "(No part of the transcript matched the question.)";
+    }
+    return passages.map((passage) => formatSegments(passage.segments)).join("\n...\n");
+}
+
+function readVisualAnalysis(summaryPath: string): string | null {
+    if (!fs.existsSync(summaryPath)) return null;
+    try {
+        const visualSummary: string | null = JSON.parse(fs.readFileSync(summaryPath, "utf-8")).visualSummary;
+        return visualSummary ? visualSummary.slice(0, MAX_VISUAL_ANALYSIS_CHARS) : null;
+    } catch {
+        return null;
+    }
+}
+
+// Answer a question about a video from its transcript and the visual
+// analysis of its last summary, citing timestamps
+export async function answerQuestion(
+    videoId: string,
+    question: string,
+    history: ChatMessage[]
+): Promise<string> {
+    const { transcriptPath, summaryPath } = checkCachedData(videoId);
+    const transcript: Transcript = JSON.parse(fs.readFileSync(transcriptPath, "utf-8"));
+
+    const previousQuestion = [...history].reverse().find((message) => message.role === "user");
+    const excerpts = retrieveTranscript(transcript, `${question} ${previousQuestion?.content ?? ""}`);
+    const visualAnalysis = readVisualAnalysis(summaryPath);
+    const title = readVideoMetadata(videoId)?.title;
+
+    const system = `You answer questions about a video${title ? ` titled "${title}"` : ""}, using only the material below.
+
+## Transcript excerpts (each line starts with its timestamp as [m:ss], or [h:mm:ss] from one hour on):
+${excerpts}
+
+## Visual analysis of the video:
+${visualAnalysis ?? "(Not available. Summarize the video to analyze its visuals.)"}
+
+## Instructions:
+1. Answer concisely, in markdown
+2. Cite the moments your answer draws on by their timestamps in square brackets, exactly as they appear above, e.g. [12:34]
+3. If the material doesn't contain the answer, say so rather than guessing
+4. Answer in the language of the question`;
+
+    const { client, model } = getAIClient("chat");
+    const response = await client.chat.completions.create({
+        model,
+        messages: [
+            { role: "system", content: system },
+            ...history.slice(-MAX_HISTORY_MESSAGES).map(({ role, content }) => ({ role, content })),
+            { role: "user", content: question },
+        ],
+        max_tokens: 1000,
+    });
+
+    return response.choices[0].message.content || "";
+}
@@ -0,0 +1,58 @@
+import { useSyncExternalStore } from "react";
+import { isCardDue, type ReviewCard, type ReviewGrade, type ReviewState } from "./spacedRepetition";
+import { readJson } from "./apiClient";
+
+// Client side of flashcard review: loading cards, recording grades and the
+// due count shown in the sidebar
+
+export async function fetchReviewCards(): Promise<ReviewCard[]> {
+    const data = await readJson<{ cards: ReviewCard[] }>(await fetch("/api/review"));
+    setDueCount(data.cards.filter((card) => isCardDue(card)).length);
+    return data.cards;
+}
+
+export async function submitReview(cardId: string, grade: ReviewGrade): Promise<ReviewState> {
+    const data = await readJson<{ state: ReviewState; dueCount: number }>(
+        await fetch("/api/review", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ cardId, grade }),
+        })
+    );
+    setDueCount(data.dueCount);
+    return data.state;
+}
+
+// Number of cards due, shared by everything showing it
+let dueCount: number | null = null;
+const listeners = new Set<() => void>();
+
+function setDueCount(count: number) {
+    dueCount = count;
+    listeners.forEach((listener) => listener());
+}
+
+export async function refreshDueCount(): Promise<number> {
+    const data = await readJson<{ dueCount: number }>(await fetch("/api/review?count=1"));
+    setDueCount(data.dueCount);
+    return data.dueCount;
+}
+
+function subscribeDueCount(onChange: () => void) {
+    listeners.add(onChange);
+    refreshDueCount().catch((e) => console.error("Failed to load due cards:", e));
+    // Cards may have been added or reviewed in another tab
+    const handleFocus = () => {
+        refreshDueCount().catch((e) => console.error("Failed to load due cards:", e));
+    };
+    window.addEventListener("focus", handleFocus);
+    return () => {
+        listeners.delete(onChange);
+        window.removeEventListener("focus", handleFocus);
+    };
+}
+
+// Null until the count has loaded
+export function useDueCount(): number | null {
+    return useSyncExternalStore(subscribeDueCount, () => dueCount, () => null);
+}
@@ -0,0 +1,77 @@
+import path from "path";
+import fs from "fs";
+import { collectBlocks, listNotes } from "./notesStore";
+import {
+    isCardDue,
+    scheduleReview,
+    type ReviewCard,
+    type ReviewGrade,
+    type ReviewState,
+} from "./spacedRepetition";
+import { writeJsonAtomic } from "./jsonFile";
+
+// Review scheduling for every flashcard, keyed by card (block) id, in
+// .vnotes/review.json. The cards themselves live in the notes.
+const CONFIG_DIR = path.join(process.cwd(), ".vnotes");
+const REVIEW_FILE = path.join(CONFIG_DIR, "review.json");
+
+function readReviewStates(): Record<string, ReviewState> {
+    if (!fs.existsSync(REVIEW_FILE)) {
+        return {};
+    }
+    try {
+        return JSON.parse(fs.readFileSync(REVIEW_FILE, "utf-8")).cards ?? {};
+    } catch {
+        return {};
+    }
+}
+
+function writeReviewStates(cards: Record<string, ReviewState>) {
+    if (!fs.existsSync(CONFIG_DIR)) {
+        fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    }
+    writeJsonAtomic(REVIEW_FILE, { cards });
+}
+
+// Every complete flashcard across all notes with its review state, soonest
+// due first and never-reviewed cards after those
+export function listReviewCards(): ReviewCard[] {
+    const states = readReviewStates();
+    const cards: ReviewCard[] = [];
+    for (const note of listNotes()) {
+        for (const block of collectBlocks(note.blocks, "flashcard")) {
+            const front = block.props?.front || "";
+            const back = block.props?.back || "";
+            if (!block.id || !front || !back) continue;
+            cards.push({
+                id: block.id,
+                front,
+                back,
+                videoId: block.props?.videoId || "",
+                time: Number(block.props?.time) || 0,
+                pageId: note.id,
+                pageTitle: note.title,
+                state: states[block.id] ?? null,
+            });
+        }
+    }
+    return cards.sort(
+        (a, b) => (a.state?.due ?? Infinity) - (b.state?.due ?? Infinity)
+    );
+}
+
+export function countDueCards(): number {
+    const now = Date.now();
+    return listReviewCards().filter((card) => isCardDue(card, now)).length;
+}
+
+// Schedule a card's next review; null if no note has the card
+export function recordReview(cardId: string, grade: ReviewGrade): ReviewState | null {
+    if (!listReviewCards().some((card) => card.id === cardId)) {
+        return null;
+    }
+    const states = readReviewStates();
+    const state = scheduleReview(states[cardId] ?? null, grade);
+    writeReviewStates({ ...states, [cardId]: state });
+    return state;
+}
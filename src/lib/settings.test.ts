@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, MAX_FRAME_BUDGET, normalizeSettings, OPENAI_PROVIDER_ID } from "./settings";
+
+const ollama = {
+    id: "ollama",
+    name: "Ollama",
+    baseUrl: "http://localhost:11434/v1",
+    apiKey: "",
+    chatModel: "llama3",
+    visionModel: "llava",
+    transcriptionModel: "",
+};
+
+describe("normalizeSettings", () => {
+    it("falls back to defaults for missing or malformed input", () => {
+        expect(normalizeSettings(null)).toEqual(DEFAULT_SETTINGS);
+        expect(normalizeSettings("settings")).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it("keeps the built-in OpenAI provider alongside custom ones", () => {
+        const settings = normalizeSettings({ providers: [ollama] });
+        expect(settings.providers.map((provider) => provider.id)).toEqual([OPENAI_PROVIDER_ID, "ollama"]);
+    });
+
+    it("points roles at unknown providers back to OpenAI", () => {
+        const settings = normalizeSettings({
+            providers: [ollama],
+            roles: { chat: "ollama", vision: "removed", transcription: "removed" },
+        });
+        expect(settings.roles).toEqual({
+            chat: "ollama",
+            vision: OPENAI_PROVIDER_ID,
+            transcription: OPENAI_PROVIDER_ID,
+        });
+    });
+
+    it("clamps the frame budget", () => {
+        expect(normalizeSettings({ frames: { maxFrames: 500 } }).frames.maxFrames).toBe(MAX_FRAME_BUDGET);
+        expect(normalizeSettings({ frames: { maxFrames: 0 } }).frames.maxFrames).toBe(1);
+        expect(normalizeSettings({ frames: { maxFrames: "many" } }).frames.maxFrames).toBe(
+            DEFAULT_SETTINGS.frames.maxFrames
+        );
+    });
+
+    it("uses the API for an unknown transcription backend", () => {
+        const settings = normalizeSettings({ transcription: { backend: "vosk", binaryPath: " vosk " } });
+        expect(settings.transcription).toEqual({ backend: "api", binaryPath: "vosk", model: "" });
+    });
+});
@@ -0,0 +1,155 @@
+// An OpenAI-compatible API: OpenAI itself, or a self-hosted server such as
+// Ollama, vLLM or LocalAI
+export interface AIProvider {
+    id: string;
+    name: string;
+    // Empty for OpenAI's own API, e.g. http://localhost:11434/v1 for Ollama
+    baseUrl: string;
+    // Empty for the built-in OpenAI provider means the key from keys.json
+    apiKey: string;
+    chatModel: string;
+    visionModel: string;
+    transcriptionModel: string;
+}
+
+// What each pipeline step needs from a provider: summaries of the
+// transcript use chat, frame analysis uses vision
+export type AIRole = "chat" | "vision" | "transcription";
+
+export const AI_ROLES: { role: AIRole; label: string }[] = [
+    { role: "chat", label: "Chat" },
+    { role: "vision", label: "Vision" },
+    { role: "transcription", label: "Transcription" },
+];
+
+// Where transcripts come from: the transcription provider's API, or a
+// whisper binary installed on this machine so audio never leaves it
+export type TranscriptionBackend = "api" | "whisper.cpp" | "faster-whisper";
+
+export const TRANSCRIPTION_BACKENDS: {
+    backend: TranscriptionBackend;
+    label: string;
+    defaultBinary: string;
+}[] = [
+    { backend: "api", label: "Transcription provider (API)", defaultBinary: "" },
+    { backend: "whisper.cpp", label: "whisper.cpp (local)", defaultBinary: "whisper-cli" },
+    // faster-whisper is run through the whisper-ctranslate2 command line
+    { backend: "faster-whisper", label: "faster-whisper (local)", defaultBinary: "whisper-ctranslate2" },
+];
+
+export interface TranscriptionSettings {
+    backend: TranscriptionBackend;
+    // Command name on PATH or absolute path; empty means the backend's default
+    binaryPath: string;
+    // ggml model file for whisper.cpp; model name or directory for faster-whisper
+    model: string;
+}
+
+// How frames are picked for the visual summary: evenly spaced through the
+// video, or wherever the picture changes, such as slide transitions
+export type FrameMode = "interval" | "scene";
+
+export const FRAME_MODES: { mode: FrameMode; label: string }[] = [
+    { mode: "interval", label: "Evenly spaced" },
+    { mode: "scene", label: "Scene changes" },
+];
+
+export const MAX_FRAME_BUDGET = 50;
+
+export interface FrameSettings {
+    mode: FrameMode;
+    // Most frames extracted and sent to the vision model
+    maxFrames: number;
+}
+
+export interface AppSettings {
+    providers: AIProvider[];
+    // Provider id used for each role
+    roles: Record<AIRole, string>;
+    transcription: TranscriptionSettings;
+    frames: FrameSettings;
+}
+
+export const OPENAI_PROVIDER_ID = "openai";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    providers: [
+        {
+            id: OPENAI_PROVIDER_ID,
+            name: "OpenAI",
+            baseUrl: "",
+            apiKey: "",
+            chatModel: "gpt-4o",
+            visionModel: "gpt-4o",
+            transcriptionModel: "whisper-1",
+        },
+    ],
+    roles: {
+        chat: OPENAI_PROVIDER_ID,
+        vision: OPENAI_PROVIDER_ID,
+        transcription: OPENAI_PROVIDER_ID,
+    },
+    transcription: {
+        backend: "api",
+        binaryPath: "",
+        model: "",
+    },
+    frames: {
+        mode: "interval",
+        maxFrames: 20,
+    },
+};
+
+// Repair settings from disk or a client: keep well-formed providers, always
+// keep the built-in OpenAI provider, and point roles at providers that exist
+export function normalizeSettings(input: unknown): AppSettings {
+    const raw = (input && typeof input === "object" ? input : {}) as Partial<AppSettings>;
+    const asString = (value: unknown, fallback = "") =>
+        typeof value === "string" ? value.trim() : fallback;
+
+    const providers: AIProvider[] = [];
+    for (const provider of Array.isArray(raw.providers) ? raw.providers : []) {
+        const id = asString(provider?.id);
+        if (!/^[A-Za-z0-9_-]+$/.test(id) || providers.some((p) => p.id === id)) continue;
+        providers.push({
+            id,
+            name: asString(provider.name) || id,
+            baseUrl: asString(provider.baseUrl),
+            apiKey: asString(provider.apiKey),
+            chatModel: asString(provider.chatModel),
+            visionModel: asString(provider.visionModel),
+            transcriptionModel: asString(provider.transcriptionModel),
+        });
+    }
+    if (!providers.some((provider) => provider.id === OPENAI_PROVIDER_ID)) {
+        providers.unshift(DEFAULT_SETTINGS.providers[0]);
+    }
+
+    const roles = { ...DEFAULT_SETTINGS.roles };
+    for (const { role } of AI_ROLES) {
+        const id = raw.roles?.[role];
+        if (providers.some((provider) => provider.id === id)) {
+            roles[role] = id!;
+        }
+    }
+
+    const transcription = { ...DEFAULT_SETTINGS.transcription };
+    const backend = raw.transcription?.backend;
+    if (TRANSCRIPTION_BACKENDS.some((option) => option.backend === backend)) {
+        transcription.backend = backend!;
+    }
+    transcription.binaryPath = asString(raw.transcription?.binaryPath);
+    transcription.model = asString(raw.transcription?.model);
+
+    const frames = { ...DEFAULT_SETTINGS.frames };
+    const mode = raw.frames?.mode;
+    if (FRAME_MODES.some((option) => option.mode === mode)) {
+        frames.mode = mode!;
+    }
+    const maxFrames = Number(raw.frames?.maxFrames);
+    if (Number.isFinite(maxFrames)) {
+        frames.maxFrames = Math.min(Math.max(Math.round(maxFrames), 1), MAX_FRAME_BUDGET);
+    }
+
+    return { providers, roles, transcription, frames };
+}
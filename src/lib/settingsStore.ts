@@ -0,0 +1,44 @@
+import path from "path";
+import fs from "fs";
+import { normalizeSettings, type AppSettings } from "./settings";
+import { writeJsonAtomic } from "./jsonFile";
+
+// Server-side settings in .vnotes/settings.json. The OpenAI API key stays in
+// keys.json, managed by /api/keys.
+const CONFIG_DIR = path.join(process.cwd(), ".vnotes");
+const SETTINGS_FILE = path.join(CONFIG_DIR, "settings.json");
+const KEYS_FILE = path.join(CONFIG_DIR, "keys.json");
+
+export function readSettings(): AppSettings {
+    if (!fs.existsSync(SETTINGS_FILE)) {
+        return normalizeSettings({});
+    }
+    try {
+        return normalizeSettings(JSON.parse(fs.readFileSync(SETTINGS_FILE, "utf-8")));
+    } catch {
+        return normalizeSettings({});
+    }
+}
+
+export function writeSettings(settings: AppSettings): AppSettings {
+    if (!fs.existsSync(CONFIG_DIR)) {
+        fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    }
+    const normalized = normalizeSettings(settings);
+    writeJsonAtomic(SETTINGS_FILE, normalized);
+    return normalized;
+}
+
+// Read OpenAI API key from config
+export function getOpenAIApiKey(): string | null {
+    if (!fs.existsSync(KEYS_FILE)) {
+        return null;
+    }
+    try {
+        const content = fs.readFileSync(KEYS_FILE, "utf-8");
+        const config = JSON.parse(content);
+        return config.openaiApiKey || null;
+    } catch {
+        return null;
+    }
+}
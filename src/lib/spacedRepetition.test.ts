@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { isCardDue, scheduleReview, type ReviewCard, type ReviewState } from "./spacedRepetition";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+describe("scheduleReview", () => {
+    it("waits 1 day, then 6, then the interval times the ease", () => {
+        const first = scheduleReview(null, "good", NOW);
+        const second = scheduleReview(first, "good", NOW);
+        const third = scheduleReview(second, "good", NOW);
+
+        expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15]);
+        expect(third.repetitions).toBe(3);
+        expect(third.due).toBe(NOW + 15 * DAY_MS);
+        expect(third.lastReviewedAt).toBe(NOW);
+    });
+
+    it("adjusts the ease by grade", () => {
+        expect(scheduleReview(null, "good", NOW).ease).toBeCloseTo(2.5);
+        expect(scheduleReview(null, "easy", NOW).ease).toBeCloseTo(2.6);
+        expect(scheduleReview(null, "hard", NOW).ease).toBeCloseTo(2.36);
+        expect(scheduleReview(null, "again", NOW).ease).toBeCloseTo(1.96);
+    });
+
+    it("starts a forgotten card over at one day", () => {
+        const learned: ReviewState = { ease: 2.5, interval: 30, repetitions: 5, due: NOW, lastReviewedAt: NOW };
+
+        expect(scheduleReview(learned, "again", NOW)).toMatchObject({ interval: 1, repetitions: 0 });
+    });
+
+    it("never lets the ease drop below 1.3", () => {
+        let state: ReviewState | null = null;
+        for (let i = 0; i < 10; i++) {
+            state = scheduleReview(state, "again", NOW);
+        }
+        expect(state!.ease).toBe(1.3);
+    });
+});
+
+describe("isCardDue", () => {
+    const card: ReviewCard = {
+        id: "card",
+        front: "Q",
+        back: "A",
+        videoId: "",
+        time: 0,
+        pageId: "page",
+        pageTitle: "Page",
+        state: null,
+    };
+
+    it("treats never-reviewed cards as due", () => {
+        expect(isCardDue(card, NOW)).toBe(true);
+    });
+
+    it("compares the due time with now", () => {
+        const state = scheduleReview(null, "good", NOW);
+
+        expect(isCardDue({ ...card, state }, NOW)).toBe(false);
+        expect(isCardDue({ ...card, state }, NOW + DAY_MS)).toBe(true);
+    });
+});
@@ -0,0 +1,72 @@
+import type { Flashcard } from "./flashcards";
+
+// How well a card was remembered, as the review screen's buttons put it
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+// SM-2 rates recall from 0 to 5; below 3 counts as forgotten
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+    again: 1,
+    hard: 3,
+    good: 4,
+    easy: 5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Scheduling state of one card, stored by card id
+export interface ReviewState {
+    ease: number;
+    // Days until the next review
+    interval: number;
+    // Successful reviews in a row
+    repetitions: number;
+    due: number;
+    lastReviewedAt: number;
+}
+
+// A flashcard block found in a note; its id is the block id
+export interface ReviewCard extends Flashcard {
+    id: string;
+    pageId: string;
+    pageTitle: string;
+    // Null for cards that have never been reviewed
+    state: ReviewState | null;
+}
+
+export function isCardDue(card: ReviewCard, now: number = Date.now()): boolean {
+    return !card.state || card.state.due <= now;
+}
+
+// SM-2: a forgotten card starts over at one day; a remembered one waits
+// 1 day, then 6, then its previous interval times its ease. The ease
+// drifts with each grade so hard cards come back more often.
+export function scheduleReview(
+    state: ReviewState | null,
+    grade: ReviewGrade,
+    now: number = Date.now()
+): ReviewState {
+    const quality = GRADE_QUALITY[grade];
+    const previous = state ?? { ease: INITIAL_EASE, interval: 0, repetitions: 0 };
+
+    const ease = Math.max(
+        MIN_EASE,
+        previous.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    let repetitions: number;
+    let interval: number;
+    if (quality < 3) {
+        repetitions = 0;
+        interval = 1;
+    } else {
+        repetitions = previous.repetitions + 1;
+        interval =
+            repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.interval * previous.ease);
+    }
+
+    return { ease, interval, repetitions, due: now + interval * DAY_MS, lastReviewedAt: now };
+}
@@ -0,0 +1,605 @@
+import path from "path";
+import fs from "fs";
+import { exec } from "child_process";
+import { promisify } from "util";
+import OpenAI from "openai";
+import { getAIClient, getAIConfigError } from "./ai";
+import { DEFAULT_SUMMARY_OPTIONS, type SummaryOptions } from "./jobs";
+import { getMediaDuration } from "./media";
+import { getVideoMetadata } from "./metadataStore";
+import { readSettings } from "./settingsStore";
+import { getTemplate } from "./templateStore";
+import { renderTemplate, type TemplateVariable } from "./templates";
+import { formatTime } from "./time";
+import { getTranscriptionConfigError, transcribeAudio } from "./transcribe";
+import type { FrameMode, FrameSettings } from "./settings";
+import { sliceTranscript, type Transcript } from "./transcript";
+import type { Chapter, VideoMetadata } from "./videoMetadata";
+import type {
+    SummarizeProgressEvent,
+    SummarizeResult,
+    SummarizeStage,
+} from "./summarizeProgress";
+
+const execAsync = promisify(exec);
+
+const AUDIO_DIR = path.join(process.cwd(), "public", "audio");
+const FRAMES_DIR = path.join(process.cwd(), "public", "frames");
+const TRANSCRIPTS_DIR = path.join(process.cwd(), "public", "transcripts");
+const SUMMARIES_DIR = path.join(process.cwd(), "public", "summaries");
+
+// Ensure directories exist
+function ensureDirectories() {
+    [AUDIO_DIR, FRAMES_DIR, TRANSCRIPTS_DIR, SUMMARIES_DIR].forEach((dir) => {
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+    });
+}
+
+// Scene score (0-1) above which a frame counts as a new scene
+const SCENE_THRESHOLD = 0.3;
+
+// Scene cuts often land mid-transition; look a moment later
+const SCENE_FRAME_OFFSET_SECONDS = 0.5;
+
+// Written into a frames directory alongside the base64 frames: where each
+// frame was taken, and with which settings
+const FRAMES_MANIFEST = "frames.json";
+
+interface FramesManifest {
+    mode: FrameMode;
+    maxFrames: number;
+    frames: { file: string; timestamp: number }[];
+}
+
+// A base64 JPEG frame and its position in the video, in seconds
+interface VideoFrame {
+    timestamp: number;
+    data: string;
+}
+
+function readFramesManifest(framesDir: string): FramesManifest | null {
+    const manifestPath = path.join(framesDir, FRAMES_MANIFEST);
+    if (!fs.existsSync(manifestPath)) {
+        return null;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+    } catch {
+        return null;
+    }
+}
+
+// Check if cached data exists. Frames only count when they were extracted with
+// the current frame settings; older frames without timestamps are redone.
+export function checkCachedData(videoId: string): {
+    hasAudio: boolean;
+    hasFrames: boolean;
+    hasTranscript: boolean;
+    hasSummary: boolean;
+    audioPath: string;
+    framesDir: string;
+    transcriptPath: string;
+    summaryPath: string;
+} {
+    const audioPath = path.join(AUDIO_DIR, `${videoId}.mp3`);
+    const framesDir = path.join(FRAMES_DIR, videoId);
+    // Older plain-text transcripts (.txt) carry no timestamps and are ignored
+    const transcriptPath = path.join(TRANSCRIPTS_DIR, `${videoId}.json`);
+    const summaryPath = path.join(SUMMARIES_DIR, `${videoId}.json`);
+
+    const frameSettings = readSettings().frames;
+    const manifest = readFramesManifest(framesDir);
+
+    return {
+        hasAudio: fs.existsSync(audioPath),
+        hasFrames:
+            manifest?.mode === frameSettings.mode &&
+            manifest.maxFrames === frameSettings.maxFrames,
+        hasTranscript: fs.existsSync(transcriptPath),
+        hasSummary: fs.existsSync(summaryPath),
+        audioPath,
+        framesDir,
+        transcriptPath,
+        summaryPath,
+    };
+}
+
+// Whether a transcript is cached, e.g. for features that work from it alone
+export function hasCachedTranscript(videoId: string): boolean {
+    return checkCachedData(videoId).hasTranscript;
+}
+
+// Extract audio from video using ffmpeg
+async function extractAudio(
+    videoPath: string,
+    outputPath: string
+): Promise<void> {
+    // Extract audio as mp3 with lower bitrate to stay under 25MB Whisper limit
+    // Using 32kbps mono which is sufficient for speech recognition
+    // Write next to the target and rename, so an interrupted run is never
+    // mistaken for cached audio
+    const partialPath = outputPath.replace(/\.mp3$/, ".partial.mp3");
+    await execAsync(
+        `ffmpeg -i "${videoPath}" -vn -acodec libmp3lame -b:a 32k -ac 1 -y "${partialPath}"`
+    );
+    fs.renameSync(partialPath, outputPath);
+}
+
+// Evenly spaced timestamps across the whole video, at most one per 10 seconds
+function getIntervalTimestamps(duration: number, maxFrames: number): number[] {
+    const frameCount = Math.min(maxFrames, Math.ceil(duration / 10));
+    const interval = duration / frameCount;
+    // Start slightly after 0 to avoid black intro frames
+    return Array.from({ length: frameCount }, (_, i) =>
+        Math.min(interval * i + interval / 2, duration - 1)
+    );
+}
+
+// Timestamps where the picture changes noticeably (plus the opening frame),
+// thinned out evenly when there are more than maxFrames
+async function getSceneTimestamps(
+    videoPath: string,
+    duration: number,
+    maxFrames: number
+): Promise<number[]> {
+    const { stderr } = await execAsync(
+        `ffmpeg -nostats -i "${videoPath}" -an -vf "select='eq(n,0)+gt(scene,${SCENE_THRESHOLD})',showinfo" -f null -`,
+        { maxBuffer: 16 * 1024 * 1024 }
+    );
+    const scenes = [...stderr.matchAll(/pts_time:([\d.]+)/g)].map((match) =>
+        Math.min(parseFloat(match[1]) + SCENE_FRAME_OFFSET_SECONDS, Math.max(duration - 1, 0))
+    );
+    if (scenes.length <= maxFrames) {
+        return scenes;
+    }
+    return Array.from(
+        { length: maxFrames },
+        (_, i) => scenes[Math.floor((i * scenes.length) / maxFrames)]
+    );
+}
+
+// Extract frames from video and convert to base64
+async function extractFrames(
+    videoPath: string,
+    outputDir: string,
+    settings: FrameSettings,
+    onFrame?: (index: number, total: number) => void
+): Promise<VideoFrame[]> {
+    // Extract into a scratch directory that only replaces outputDir once every
+    // frame is written, so an interrupted run is never mistaken for cached frames
+    const workDir = `${outputDir}.partial`;
+    fs.rmSync(workDir, { recursive: true, force: true });
+    fs.mkdirSync(workDir, { recursive: true });
+
+    // Get video duration
+    const duration = await getMediaDuration(videoPath);
+
+    let timestamps =
+        settings.mode === "scene"
+            ? await getSceneTimestamps(videoPath, duration, settings.maxFrames)
+            : [];
+    // Interval mode, or a video the scene filter found nothing in
+    if (timestamps.length === 0) {
+        timestamps = getIntervalTimestamps(duration, settings.maxFrames);
+    }
+
+    const frames: VideoFrame[] = [];
+    const manifest: FramesManifest = {
+        mode: settings.mode,
+        maxFrames: settings.maxFrames,
+        frames: [],
+    };
+
+    for (const [i, timestamp] of timestamps.entries()) {
+        const frameFileName = `frame_${String(i).padStart(3, "0")}.jpg`;
+        const framePath = path.join(workDir, frameFileName);
+        const base64FileName = `frame_${String(i).padStart(3, "0")}.txt`;
+
+        // Extract frame at specific timestamp
+        await execAsync(
+            `ffmpeg -ss ${timestamp} -i "${videoPath}" -vframes 1 -q:v 2 -y "${framePath}"`
+        );
+
+        // Convert to base64 and save
+        if (fs.existsSync(framePath)) {
+            const imageBuffer = fs.readFileSync(framePath);
+            const base64String = imageBuffer.toString("base64");
+            fs.writeFileSync(path.join(workDir, base64FileName), base64String);
+            frames.push({ timestamp, data: base64String });
+            manifest.frames.push({ file: base64FileName, timestamp });
+
+            // Remove the jpg file, keep only base64 txt
+            fs.unlinkSync(framePath);
+        }
+        onFrame?.(i, timestamps.length);
+    }
+
+    fs.writeFileSync(path.join(workDir, FRAMES_MANIFEST), JSON.stringify(manifest, null, 2));
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.renameSync(workDir, outputDir);
+
+    return frames;
+}
+
+// Load cached frames from disk
+function loadCachedFrames(framesDir: string): VideoFrame[] {
+    const manifest = readFramesManifest(framesDir)!;
+    return manifest.frames.map(({ file, timestamp }) => ({
+        timestamp,
+        data: fs.readFileSync(path.join(framesDir, file), "utf-8"),
+    }));
+}
+
+// Load cached transcript from disk
+function loadCachedTranscript(transcriptPath: string): Transcript {
+    return JSON.parse(fs.readFileSync(transcriptPath, "utf-8"));
+}
+
+// Generate visual summary from frames using the vision model. Each frame is
+// labelled with its timestamp so the summary can say when things appear.
+async function generateVisualSummary(
+    frames: VideoFrame[],
+    prompt: string
+): Promise<string> {
+    const { client, model } = getAIClient("vision");
+
+    const content: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [];
+
+    content.push({ type: "text", text: prompt });
+
+    for (const frame of frames) {
+        content.push({ type: "text", text: `[${formatTime(frame.timestamp)}]` });
+        content.push({
+            type: "image_url",
+            image_url: {
+                url: `data:image/jpeg;base64,${frame.data}`,
+                detail: "low",
+            },
+        });
+    }
+
+    const response = await client.chat.completions.create({
+        model,
+        messages: [{ role: "user", content }],
+        max_tokens: 1500,
+    });
+
+    return response.choices[0].message.content || "";
+}
+
+// Generate audio/transcript summary using the chat model
+async function generateAudioSummary(
+    prompt: string
+): Promise<string> {
+    const { client, model } = getAIClient("chat");
+
+    const response = await client.chat.completions.create({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: 1500,
+    });
+
+    return response.choices[0].message.content || "";
+}
+
+// The summary is turned into note blocks, so whatever the template asks for
+// has to come back as markdown the editor understands
+const FORMATTING_REQUIREMENTS = `## Formatting Requirements:
+- Use markdown headings (## for sections, ### for subsections)
+- Use bullet points (- item) for lists of key points
+- Use **bold** for important terms or concepts
+- Keep paragraphs concise and well-organized`;
+
+// Per-chapter summaries sit under a ## heading per chapter, added by the pipeline
+const CHAPTER_FORMATTING_REQUIREMENTS = `## Formatting Requirements:
+- Do not start with a heading for the chapter itself
+- Use ### headings for any subsections
+- Use bullet points (- item) for lists of key points
+- Use **bold** for important terms or concepts
+- Keep paragraphs concise and well-organized`;
+
+// Consolidate the analyses into the final summary
+async function generateFinalSummary(
+    prompt: string,
+    formatting = FORMATTING_REQUIREMENTS
+): Promise<string> {
+    const { client, model } = getAIClient("chat");
+
+    const response = await client.chat.completions.create({
+        model,
+        messages: [
+            {
+                role: "user",
+                content: `${prompt}
+
+${formatting}
+
+Please provide your consolidated summary:`,
+            },
+        ],
+        max_tokens: 2000,
+    });
+
+    return response.choices[0].message.content || "";
+}
+
+// Run one stage of the pipeline, reporting when it starts and finishes.
+// Cancellation is checked before each stage starts.
+async function runStage<T>(
+    stage: SummarizeStage,
+    cached: boolean,
+    emit: (event: SummarizeProgressEvent) => void,
+    signal: AbortSignal | undefined,
+    work: () => Promise<T> | T
+): Promise<T> {
+    signal?.throwIfAborted();
+    const startedAt = Date.now();
+    emit({ type: "stage", stage, status: "started" });
+    const result = await work();
+    emit({
+        type: "stage",
+        stage,
+        status: "completed",
+        cached,
+        durationMs: Date.now() - startedAt,
+    });
+    return result;
+}
+
+// Why the current settings can't summarize this media, or null
+export function getSummarizeConfigError(audioOnly: boolean): string | null {
+    const transcriptionError = getTranscriptionConfigError();
+    if (transcriptionError) return transcriptionError;
+    const roles = audioOnly ? (["chat"] as const) : (["vision", "chat"] as const);
+    for (const role of roles) {
+        const error = getAIConfigError(role);
+        if (error) return error;
+    }
+    return null;
+}
+
+// Longer descriptions are mostly links and sponsor copy
+const MAX_DESCRIPTION_CHARS = 2000;
+
+// Title, channel and description to put ahead of every prompt, when known
+function getVideoContext(metadata: VideoMetadata | null): string {
+    if (!metadata?.title) {
+        return "";
+    }
+    const lines = ["## Video:", `Title: ${metadata.title}`];
+    if (metadata.channel) {
+        lines.push(`Channel: ${metadata.channel}`);
+    }
+    if (metadata.description) {
+        lines.push(`Description:\n${metadata.description.slice(0, MAX_DESCRIPTION_CHARS)}`);
+    }
+    return `${lines.join("\n")}\n\n`;
+}
+
+// Write one section per chapter from that chapter's transcript, each under a
+// "## [m:ss] Title" heading the editor turns into a clickable timestamp
+async function generateChapterSummaries(
+    chapters: Chapter[],
+    transcript: Transcript,
+    finalPrompt: string,
+    variables: Partial<Record<TemplateVariable, string>>,
+    videoContext: string,
+    emit: (event: SummarizeProgressEvent) => void,
+    signal?: AbortSignal
+): Promise<string> {
+    const sections: string[] = [];
+    emit({ type: "chapter", completed: 0, total: chapters.length });
+
+    // The last chapter runs to the end of the transcript when the video's
+    // length is unknown
+    const transcriptEnd =
+        transcript.duration || transcript.segments[transcript.segments.length - 1]?.end || Infinity;
+
+    for (const [index, chapter] of chapters.entries()) {
+        signal?.throwIfAborted();
+        const heading = `## [${formatTime(chapter.start)}] ${chapter.title}`;
+        const end = chapter.end > chapter.start ? chapter.end : transcriptEnd;
+        const chapterText = sliceTranscript(transcript.segments, { start: chapter.start, end })
+            .map((segment) => segment.text)
+            .join(" ");
+
+        if (chapterText) {
+            const prompt = renderTemplate(finalPrompt, {
+                ...variables,
+                transcript: chapterText,
+                audioAnalysis: chapterText,
+            });
+            const body = await generateFinalSummary(
+                `This is one chapter of a longer video: "${chapter.title}", from [${formatTime(chapter.start)}] to ${Number.isFinite(end) ? `[${formatTime(end)}]` : "the end of the video"}. Summarize only this chapter. The audio/transcript section below is this chapter's transcript. The visual analysis covers the whole video; use only the parts whose timestamps fall within this chapter.
+
+${videoContext}${prompt}`,
+                CHAPTER_FORMATTING_REQUIREMENTS
+            );
+            sections.push(`${heading}\n\n${body.trim()}`);
+        } else {
+            // Nothing was said, e.g. an intro with music only
+            sections.push(heading);
+        }
+        emit({ type: "chapter", completed: index + 1, total: chapters.length });
+    }
+
+    return sections.join("\n\n");
+}
+
+// Report a stage that doesn't apply to this media
+function skipStage(stage: SummarizeStage, emit: (event: SummarizeProgressEvent) => void) {
+    emit({ type: "stage", stage, status: "skipped" });
+}
+
+// Full pipeline: audio -> transcript -> frames -> visual -> audio -> consolidate.
+// Audio-only media skips the frame and visual stages. The prompts come from
+// the chosen template, or the default overview. In chapters mode the final
+// stage writes a section per chapter straight from its transcript, in place
+// of the whole-transcript audio summary.
+export async function summarizeVideo(
+    videoId: string,
+    media: { path: string; audioOnly: boolean },
+    emit: (event: SummarizeProgressEvent) => void,
+    signal?: AbortSignal,
+    { templateId, mode }: SummaryOptions = DEFAULT_SUMMARY_OPTIONS
+): Promise<SummarizeResult> {
+    ensureDirectories();
+
+    // The title and description give the prompts context, and chapters mode
+    // needs the chapters. Find out about missing chapters before any of the
+    // slow work; otherwise summarize without the metadata.
+    let metadata: VideoMetadata | null = null;
+    try {
+        metadata = await getVideoMetadata(videoId);
+    } catch (error) {
+        if (mode === "chapters") {
+            throw new Error(
+                `Could not fetch chapters from YouTube: ${error instanceof Error ? error.message : error}`
+            );
+        }
+        console.warn(`Could not fetch metadata for ${videoId}:`, error);
+    }
+    const chapters = metadata?.chapters ?? [];
+    if (mode === "chapters" && chapters.length === 0) {
+        throw new Error("This video has no chapters. Summarize it as an overview instead.");
+    }
+    const videoContext = getVideoContext(metadata);
+
+    // Check for cached data
+    const cached = checkCachedData(videoId);
+
+    // Extract or load audio
+    await runStage("audio", cached.hasAudio, emit, signal, async () => {
+        if (cached.hasAudio) {
+            console.log(`Using cached audio for ${videoId}`);
+        } else {
+            console.log(`Extracting audio for ${videoId}`);
+            await extractAudio(media.path, cached.audioPath);
+        }
+    });
+
+    // Transcribe or load cached transcript
+    const transcript: Transcript = await runStage(
+        "transcript",
+        cached.hasTranscript,
+        emit,
+        signal,
+        () => {
+            if (cached.hasTranscript) {
+                console.log(`Using cached transcript for ${videoId}`);
+                return loadCachedTranscript(cached.transcriptPath);
+            }
+            console.log(`Transcribing audio for ${videoId}`);
+            return transcribeAudio(cached.audioPath, cached.transcriptPath, {
+                signal,
+                onChunk: (completed, total) => emit({ type: "chunk", completed, total }),
+            });
+        }
+    );
+
+    // Extract or load frames
+    let frames: VideoFrame[] = [];
+    if (media.audioOnly) {
+        skipStage("frames", emit);
+    } else {
+        frames = await runStage("frames", cached.hasFrames, emit, signal, () => {
+            if (cached.hasFrames) {
+                console.log(`Using cached frames for ${videoId}`);
+                return loadCachedFrames(cached.framesDir);
+            }
+            console.log(`Extracting frames for ${videoId}`);
+            return extractFrames(media.path, cached.framesDir, readSettings().frames, (index, total) => {
+                emit({ type: "frame", index, total });
+                signal?.throwIfAborted();
+            });
+        });
+    }
+
+    // Generate summary with the configured models and the chosen template
+    // (3-step process)
+    console.log(`Generating summary for ${videoId}`);
+    const template = getTemplate(templateId);
+    const variables = {
+        transcript: transcript.text,
+        language: transcript.language || "the same language as the transcript",
+        visualAnalysis: "",
+    };
+
+    let visualSummary: string | null = null;
+    if (media.audioOnly) {
+        skipStage("visualSummary", emit);
+    } else {
+        visualSummary = await runStage("visualSummary", false, emit, signal, () =>
+            generateVisualSummary(
+                frames,
+                videoContext + renderTemplate(template.visualPrompt, variables)
+            )
+        );
+    }
+    variables.visualAnalysis =
+        visualSummary ?? "No visual frames were analyzed; this media is audio only.";
+
+    let audioSummary: string | null = null;
+    let finalSummary: string;
+    if (mode === "chapters") {
+        skipStage("audioSummary", emit);
+        finalSummary = await runStage("finalSummary", false, emit, signal, () =>
+            generateChapterSummaries(
+                chapters,
+                transcript,
+                template.finalPrompt,
+                variables,
+                videoContext,
+                emit,
+                signal
+            )
+        );
+    } else {
+        const summary = await runStage("audioSummary", false, emit, signal, () =>
+            generateAudioSummary(videoContext + renderTemplate(template.audioPrompt, variables))
+        );
+        audioSummary = summary;
+        finalSummary = await runStage("finalSummary", false, emit, signal, () =>
+            generateFinalSummary(
+                videoContext +
+                    renderTemplate(template.finalPrompt, { ...variables, audioAnalysis: summary })
+            )
+        );
+    }
+
+    // Keep the latest summary so processed videos can be listed later
+    fs.writeFileSync(
+        cached.summaryPath,
+        JSON.stringify(
+            {
+                visualSummary,
+                audioSummary,
+                finalSummary,
+                templateId: template.id,
+                mode,
+                createdAt: Date.now(),
+            },
+            null,
+            2
+        )
+    );
+
+    return {
+        success: true,
+        videoId,
+        summary: finalSummary,
+        visualSummary,
+        audioSummary,
+        audioOnly: media.audioOnly,
+        templateId: template.id,
+        mode,
+        frameCount: frames.length,
+        cached: {
+            audio: cached.hasAudio,
+            frames: cached.hasFrames,
+            transcript: cached.hasTranscript,
+        },
+    };
+}
@@ -0,0 +1,64 @@
+import type { SummaryMode } from "./jobs";
+
+export type SummarizeStage =
+    | "audio"
+    | "transcript"
+    | "frames"
+    | "visualSummary"
+    | "audioSummary"
+    | "finalSummary";
+
+export const SUMMARIZE_STAGES: { stage: SummarizeStage; label: string }[] = [
+    { stage: "audio", label: "Extracting audio" },
+    { stage: "transcript", label: "Transcribing" },
+    { stage: "frames", label: "Extracting frames" },
+    { stage: "visualSummary", label: "Summarizing visuals" },
+    { stage: "audioSummary", label: "Summarizing audio" },
+    { stage: "finalSummary", label: "Writing final summary" },
+];
+
+export interface SummarizeResult {
+    success: true;
+    videoId: string;
+    summary: string;
+    // Null for audio-only media, which has no frames to look at
+    visualSummary: string | null;
+    // Null in chapters mode, where each chapter is summarized from its transcript
+    audioSummary: string | null;
+    audioOnly: boolean;
+    // Prompt template the summary was written with
+    templateId: string;
+    mode: SummaryMode;
+    frameCount: number;
+    cached: {
+        audio: boolean;
+        frames: boolean;
+        transcript: boolean;
+    };
+}
+
+// Events reported by the pipeline as it works through each stage
+export type SummarizeProgressEvent =
+    | { type: "stage"; stage: SummarizeStage; status: "started" }
+    // Stages that don't apply, e.g. frames for audio-only media
+    | { type: "stage"; stage: SummarizeStage; status: "skipped" }
+    | {
+          type: "stage";
+          stage: SummarizeStage;
+          status: "completed";
+          cached: boolean;
+          durationMs: number;
+      }
+    | { type: "frame"; index: number; total: number }
+    // Long audio is transcribed in chunks
+    | { type: "chunk"; completed: number; total: number }
+    // Chapters summarized so far in chapters mode
+    | { type: "chapter"; completed: number; total: number };
+
+// One line of the NDJSON stream from POST /api/summarize with `stream: true`.
+// elapsedMs is measured from the start of the request.
+export type SummarizeStreamEvent = (
+    | SummarizeProgressEvent
+    | { type: "result"; result: SummarizeResult }
+    | { type: "error"; error: string }
+) & { elapsedMs: number };
@@ -0,0 +1,49 @@
+import path from "path";
+import fs from "fs";
+import {
+    BUILT_IN_TEMPLATES,
+    findTemplate,
+    normalizeUserTemplates,
+    type PromptTemplate,
+} from "./templates";
+import { writeJsonAtomic } from "./jsonFile";
+
+// User-defined prompt templates in .vnotes/templates.json; the built-ins
+// live in code
+const CONFIG_DIR = path.join(process.cwd(), ".vnotes");
+const TEMPLATES_FILE = path.join(CONFIG_DIR, "templates.json");
+
+function readUserTemplates(): PromptTemplate[] {
+    if (!fs.existsSync(TEMPLATES_FILE)) {
+        return [];
+    }
+    try {
+        return normalizeUserTemplates(JSON.parse(fs.readFileSync(TEMPLATES_FILE, "utf-8")).templates);
+    } catch {
+        return [];
+    }
+}
+
+// Built-in templates first, then the user's
+export function readTemplates(): PromptTemplate[] {
+    return [...BUILT_IN_TEMPLATES, ...readUserTemplates()];
+}
+
+// Replace the user's templates; built-ins in the input are ignored
+export function writeUserTemplates(input: unknown): PromptTemplate[] {
+    if (!fs.existsSync(CONFIG_DIR)) {
+        fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    }
+    const templates = normalizeUserTemplates(input);
+    writeJsonAtomic(TEMPLATES_FILE, { templates });
+    return [...BUILT_IN_TEMPLATES, ...templates];
+}
+
+export function templateExists(id: string): boolean {
+    return readTemplates().some((template) => template.id === id);
+}
+
+// The template with this id, or the default overview
+export function getTemplate(id: string | null | undefined): PromptTemplate {
+    return findTemplate(readTemplates(), id);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, normalizeUserTemplates, renderTemplate } from "./templates";
+
+describe("renderTemplate", () => {
+    it("substitutes variables, with or without spaces in the braces", () => {
+        expect(renderTemplate("Say {{transcript}} in {{ language }}", { transcript: "hi", language: "French" })).toBe(
+            "Say hi in French"
+        );
+    });
+
+    it("leaves unknown and missing variables intact", () => {
+        expect(renderTemplate("{{speaker}}: {{transcript}} ({{language}})", { transcript: "hi" })).toBe(
+            "{{speaker}}: hi ({{language}})"
+        );
+    });
+});
+
+describe("normalizeUserTemplates", () => {
+    it("drops templates using a built-in id, duplicates and malformed ids", () => {
+        const templates = normalizeUserTemplates([
+            { id: DEFAULT_TEMPLATE_ID, name: "Hijacked" },
+            { id: "recipe", name: "Recipe" },
+            { id: "recipe", name: "Recipe again" },
+            { id: "../escape", name: "Escape" },
+            "not a template",
+        ]);
+
+        expect(templates.map((template) => [template.id, template.name])).toEqual([["recipe", "Recipe"]]);
+    });
+
+    it("fills empty prompts from the overview and never marks templates built in", () => {
+        const [template] = normalizeUserTemplates([{ id: "recipe", finalPrompt: "  List the steps  ", builtIn: true }]);
+
+        expect(template).toMatchObject({
+            name: "recipe",
+            audioPrompt: BUILT_IN_TEMPLATES[0].audioPrompt,
+            finalPrompt: "List the steps",
+            builtIn: false,
+        });
+    });
+
+    it("returns no templates for input that isn't a list", () => {
+        expect(normalizeUserTemplates({ templates: [] })).toEqual([]);
+    });
+});
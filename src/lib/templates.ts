@@ -0,0 +1,205 @@
+import { readJson } from "./apiClient";
+
+// Prompt templates shape what the summarize pipeline asks for. Each prompt may
+// use {{variable}} placeholders, filled in as the pipeline runs.
+export type TemplateVariable = "transcript" | "visualAnalysis" | "audioAnalysis" | "language";
+
+export const TEMPLATE_VARIABLES: { name: TemplateVariable; description: string }[] = [
+    { name: "transcript", description: "Full transcript text" },
+    { name: "visualAnalysis", description: "Output of the visual prompt (empty while it runs)" },
+    { name: "audioAnalysis", description: "Output of the transcript prompt (final prompt only)" },
+    { name: "language", description: "Language detected in the transcript" },
+];
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    description: string;
+    // Sent along with the video frames, each labelled with its timestamp
+    visualPrompt: string;
+    // Analyzes the transcript
+    audioPrompt: string;
+    // Combines both analyses into the summary inserted into the note
+    finalPrompt: string;
+    // Built-in templates can be duplicated but not edited
+    builtIn: boolean;
+}
+
+export const DEFAULT_TEMPLATE_ID = "overview";
+
+const VISUAL_PROMPT = `You are analyzing frames extracted from a video. Each frame is preceded by its timestamp in the video as [m:ss], or [h:mm:ss] from one hour on. Based solely on these visual frames, provide a summary of what you observe.
+
+## Instructions:
+1. Describe the visual content, scenes, and what appears to be happening
+2. Note any on-screen text, diagrams, demonstrations, or visual aids
+3. Identify the setting, people, or objects shown
+4. Describe any visual transitions or changes throughout the video
+5. Say when things appear on screen by citing frame timestamps, e.g. "At [2:15] a diagram of ..."
+
+Please provide your visual analysis:`;
+
+const AUDIO_PROMPT = `You are analyzing the audio transcript of a video. Based solely on this transcript, provide a summary of the spoken content.
+
+## Transcript:
+{{transcript}}
+
+## Instructions:
+1. Summarize the main topics and key points discussed
+2. Identify the speaker's main arguments or explanations
+3. Note any important terminology, names, or concepts mentioned
+4. Highlight any conclusions or takeaways
+
+Please provide your audio/transcript analysis:`;
+
+// Shared opening of the built-in final prompts
+const ANALYSES = `## Visual Analysis:
+{{visualAnalysis}}
+
+## Audio/Transcript Analysis:
+{{audioAnalysis}}`;
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+    {
+        id: DEFAULT_TEMPLATE_ID,
+        name: "Overview",
+        description: "A general overview of the video",
+        visualPrompt: VISUAL_PROMPT,
+        audioPrompt: AUDIO_PROMPT,
+        finalPrompt: `You have been given two separate analyses of a video - one based on visual frames and one based on the audio transcript. Your task is to consolidate these into a single, comprehensive overview.
+
+${ANALYSES}
+
+## Instructions:
+1. Synthesize both analyses into a cohesive summary
+2. Identify how the visual and audio content complement each other
+3. Highlight the main themes, key points, and takeaways
+4. Note any discrepancies or additional insights from combining both sources
+5. Provide a well-structured, comprehensive overview that captures the full essence of the video
+6. Write in {{language}}`,
+        builtIn: true,
+    },
+    {
+        id: "lecture",
+        name: "Lecture notes",
+        description: "Study notes with definitions and key concepts",
+        visualPrompt: VISUAL_PROMPT,
+        audioPrompt: AUDIO_PROMPT,
+        finalPrompt: `You have been given analyses of a recorded lecture, one from its visuals (slides, board work) and one from its transcript. Turn them into study notes.
+
+${ANALYSES}
+
+## Instructions:
+1. Start with a short summary of what the lecture covers
+2. Organize the notes by topic, in the order they were taught
+3. Add a "Definitions" section listing each term introduced, with its definition
+4. Include formulas, examples and diagrams described on the slides
+5. End with a "Review questions" section of questions a student should be able to answer
+6. Write in {{language}}`,
+        builtIn: true,
+    },
+    {
+        id: "tutorial",
+        name: "Step-by-step tutorial",
+        description: "Numbered steps someone can follow along",
+        visualPrompt: VISUAL_PROMPT,
+        audioPrompt: AUDIO_PROMPT,
+        finalPrompt: `You have been given analyses of a tutorial video, one from its visuals and one from its transcript. Rewrite it as a step-by-step guide.
+
+${ANALYSES}
+
+## Instructions:
+1. Start with what the tutorial achieves and any prerequisites
+2. List the steps in order as a numbered list, one action per step
+3. Include exact commands, settings, values and menu names shown or mentioned
+4. Call out warnings and common mistakes
+5. End with how to check that it worked
+6. Write in {{language}}`,
+        builtIn: true,
+    },
+    {
+        id: "meeting",
+        name: "Meeting minutes",
+        description: "Decisions and action items",
+        visualPrompt: VISUAL_PROMPT,
+        audioPrompt: AUDIO_PROMPT,
+        finalPrompt: `You have been given analyses of a recorded meeting, one from its visuals (shared screens, slides) and one from its transcript. Write the meeting minutes.
+
+${ANALYSES}
+
+## Instructions:
+1. Start with the purpose of the meeting and who took part, if known
+2. Summarize each topic discussed
+3. Add a "Decisions" section listing every decision made
+4. Add an "Action items" section listing each task, with its owner and due date when mentioned
+5. Add an "Open questions" section for anything left unresolved
+6. Write in {{language}}`,
+        builtIn: true,
+    },
+    {
+        id: "paper",
+        name: "Paper digest",
+        description: "Problem, method, results and limitations of a paper talk",
+        visualPrompt: VISUAL_PROMPT,
+        audioPrompt: AUDIO_PROMPT,
+        finalPrompt: `You have been given analyses of a video presenting or discussing a research paper, one from its visuals and one from its transcript. Write a reading digest of the paper.
+
+${ANALYSES}
+
+## Instructions:
+1. State the problem the paper addresses and why it matters
+2. Describe the proposed method or approach
+3. Summarize the experiments and key results, including numbers shown on slides
+4. List the contributions, limitations and open questions
+5. Note related work that is mentioned
+6. Write in {{language}}`,
+        builtIn: true,
+    },
+];
+
+export function findTemplate(templates: PromptTemplate[], id: string | null | undefined): PromptTemplate {
+    return templates.find((template) => template.id === id) ?? BUILT_IN_TEMPLATES[0];
+}
+
+// Fill in {{variable}} placeholders; unknown names are left as they are
+export function renderTemplate(
+    prompt: string,
+    variables: Partial<Record<TemplateVariable, string>>
+): string {
+    return prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        variables[name as TemplateVariable] ?? placeholder
+    );
+}
+
+// Keep well-formed user templates whose ids don't clash with the built-ins;
+// prompts left empty fall back to the overview's
+export function normalizeUserTemplates(input: unknown): PromptTemplate[] {
+    const fallback = BUILT_IN_TEMPLATES[0];
+    const asString = (value: unknown) => (typeof value === "string" ? value : "");
+
+    const templates: PromptTemplate[] = [];
+    for (const raw of Array.isArray(input) ? input : []) {
+        const id = asString(raw?.id).trim();
+        if (
+            !/^[A-Za-z0-9_-]+$/.test(id) ||
+            BUILT_IN_TEMPLATES.some((template) => template.id === id) ||
+            templates.some((template) => template.id === id)
+        ) {
+            continue;
+        }
+        templates.push({
+            id,
+            name: asString(raw.name).trim() || id,
+            description: asString(raw.description).trim(),
+            visualPrompt: asString(raw.visualPrompt).trim() || fallback.visualPrompt,
+            audioPrompt: asString(raw.audioPrompt).trim() || fallback.audioPrompt,
+            finalPrompt: asString(raw.finalPrompt).trim() || fallback.finalPrompt,
+            builtIn: false,
+        });
+    }
+    return templates;
+}
+
+export async function fetchTemplates(): Promise<PromptTemplate[]> {
+    const data = await readJson<{ templates: PromptTemplate[] }>(await fetch("/api/templates"));
+    return data.templates;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { formatTime, parseTime, TIMESTAMP_PATTERN } from "./time";
+
+describe("formatTime", () => {
+    it("formats times under an hour as m:ss", () => {
+        expect(formatTime(0)).toBe("0:00");
+        expect(formatTime(65.9)).toBe("1:05");
+        expect(formatTime(3599)).toBe("59:59");
+    });
+
+    it("formats times from an hour up as h:mm:ss", () => {
+        expect(formatTime(3600)).toBe("1:00:00");
+        expect(formatTime(6005)).toBe("1:40:05");
+    });
+
+    it("round-trips through parseTime", () => {
+        for (const seconds of [0, 59, 754, 3600, 6005, 36061]) {
+            expect(parseTime(formatTime(seconds))).toBe(seconds);
+        }
+    });
+});
+
+describe("TIMESTAMP_PATTERN", () => {
+    it("matches every time formatTime writes", () => {
+        for (const seconds of [5, 754, 6005, 36061]) {
+            expect(`[${formatTime(seconds)}]`.match(TIMESTAMP_PATTERN)?.[1]).toBe(formatTime(seconds));
+        }
+    });
+
+    it("matches minutes past 99", () => {
+        expect("see [100:05]".match(TIMESTAMP_PATTERN)?.[1]).toBe("100:05");
+    });
+});
@@ -0,0 +1,17 @@
+// "m:ss", or "h:mm:ss" from one hour up
+export function formatTime(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const mins = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60).toString().padStart(2, "0");
+    return hours > 0
+        ? `${hours}:${mins.toString().padStart(2, "0")}:${secs}`
+        : `${mins}:${secs}`;
+}
+
+// "m:ss" or "h:mm:ss" to seconds
+export function parseTime(text: string): number {
+    return text.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+// A timestamp cited in text as [m:ss] or [h:mm:ss], capturing the time
+export const TIMESTAMP_PATTERN = /\[((?:\d+:)?\d+:\d{2})\]/;
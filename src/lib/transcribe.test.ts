@@ -0,0 +1,72 @@
+import os from "os";
+import path from "path";
+import fs from "fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { planChunks, stitchChunks } from "./transcribe";
+import type { Transcript } from "./transcript";
+
+describe("planChunks", () => {
+    it("splits audio into ten-minute chunks, the last one open-ended", () => {
+        const chunks = planChunks(1500, "/tmp/audio.chunks");
+
+        expect(chunks.map(({ start, end }) => ({ start, end }))).toEqual([
+            { start: 0, end: 600 },
+            { start: 600, end: 1200 },
+            { start: 1200, end: Infinity },
+        ]);
+        expect(chunks[1].audioPath).toBe(path.join("/tmp/audio.chunks", "chunk_001.mp3"));
+        expect(chunks[1].transcriptPath).toBe(path.join("/tmp/audio.chunks", "chunk_001.json"));
+    });
+
+    it("plans a single chunk for audio up to one chunk long", () => {
+        expect(planChunks(600, "/tmp/audio.chunks")).toHaveLength(1);
+    });
+});
+
+describe("stitchChunks", () => {
+    let chunksDir: string;
+
+    beforeEach(() => {
+        chunksDir = fs.mkdtempSync(path.join(os.tmpdir(), "vnotes-chunks-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(chunksDir, { recursive: true, force: true });
+    });
+
+    function writeChunk(transcriptPath: string, transcript: Partial<Transcript>) {
+        fs.writeFileSync(transcriptPath, JSON.stringify({ text: "", segments: [], ...transcript }));
+    }
+
+    it("shifts segments by their chunk's offset and drops the overlap", () => {
+        const chunks = planChunks(900, chunksDir);
+        writeChunk(chunks[0].transcriptPath, {
+            language: "en",
+            segments: [
+                { start: 0, end: 5, text: "Hello" },
+                { start: 598, end: 603, text: "across the boundary" },
+                // Heard again by the next chunk, which owns this time
+                { start: 601, end: 604, text: "next part" },
+            ],
+        });
+        writeChunk(chunks[1].transcriptPath, {
+            language: "de",
+            segments: [
+                // The end of the earlier chunk's last segment, heard twice
+                { start: 0, end: 3, text: "boundary" },
+                { start: 3.5, end: 6, text: "next part" },
+            ],
+        });
+
+        expect(stitchChunks(chunks, 900)).toEqual({
+            text: "Hello across the boundary next part",
+            language: "en",
+            duration: 900,
+            segments: [
+                { start: 0, end: 5, text: "Hello" },
+                { start: 598, end: 603, text: "across the boundary" },
+                { start: 603.5, end: 606, text: "next part" },
+            ],
+        });
+    });
+});
@@ -0,0 +1,227 @@
+import path from "path";
+import fs from "fs";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { getAIClient, getAIConfigError } from "./ai";
+import { getLocalTranscriptionError, transcribeLocally } from "./localTranscribe";
+import { getMediaDuration } from "./media";
+import { readSettings } from "./settingsStore";
+import type { Transcript, TranscriptSegment } from "./transcript";
+
+const execAsync = promisify(exec);
+
+// Whisper rejects uploads over 25MB; leave some headroom (other providers
+// may accept more, but chunking works everywhere)
+const MAX_UPLOAD_BYTES = 24 * 1024 * 1024;
+
+// Long audio is transcribed in chunks of this length. Each chunk runs a little
+// past its end so words cut at the boundary are heard whole by one chunk.
+const CHUNK_SECONDS = 10 * 60;
+const CHUNK_OVERLAP_SECONDS = 5;
+
+const MAX_PARALLEL_CHUNKS = 3;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+interface AudioChunk {
+    index: number;
+    // Offset of the chunk within the full audio, in seconds
+    start: number;
+    // Where the next chunk starts; segments past this belong to it
+    end: number;
+    audioPath: string;
+    transcriptPath: string;
+}
+
+// Send one audio file to the transcription model, keeping segment-level timestamps
+async function requestTranscription(audioPath: string): Promise<Transcript> {
+    const { client, model } = getAIClient("transcription");
+
+    const transcription = await client.audio.transcriptions.create({
+        file: fs.createReadStream(audioPath),
+        model,
+        response_format: "verbose_json",
+        timestamp_granularities: ["segment"],
+    });
+
+    return {
+        text: transcription.text,
+        language: transcription.language,
+        duration: transcription.duration,
+        segments: (transcription.segments || []).map((segment) => ({
+            start: segment.start,
+            end: segment.end,
+            text: segment.text.trim(),
+        })),
+    };
+}
+
+async function withRetries<T>(
+    work: () => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            return await work();
+        } catch (error) {
+            if (attempt >= MAX_ATTEMPTS || signal?.aborted) throw error;
+            console.warn(`Transcription attempt ${attempt} failed, retrying:`, error);
+            await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+        }
+    }
+}
+
+// Run tasks with at most `limit` in flight, failing fast on the first error
+async function runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    task: (item: T) => Promise<void>
+): Promise<void> {
+    let next = 0;
+    // Once a task throws, the other workers finish what they started but
+    // take no more items
+    let failed = false;
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (!failed && next < items.length) {
+            try {
+                await task(items[next++]);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    });
+    await Promise.all(workers);
+}
+
+function getChunksDir(audioPath: string): string {
+    return audioPath.replace(/\.mp3$/, ".chunks");
+}
+
+export function planChunks(duration: number, chunksDir: string): AudioChunk[] {
+    const count = Math.ceil(duration / CHUNK_SECONDS);
+    return Array.from({ length: count }, (_, index) => {
+        const name = `chunk_${String(index).padStart(3, "0")}`;
+        return {
+            index,
+            start: index * CHUNK_SECONDS,
+            end: index === count - 1 ? Infinity : (index + 1) * CHUNK_SECONDS,
+            audioPath: path.join(chunksDir, `${name}.mp3`),
+            transcriptPath: path.join(chunksDir, `${name}.json`),
+        };
+    });
+}
+
+// Cut one chunk out of the full audio and transcribe it
+async function transcribeChunk(
+    sourcePath: string,
+    chunk: AudioChunk,
+    signal?: AbortSignal
+): Promise<void> {
+    signal?.throwIfAborted();
+
+    if (!fs.existsSync(chunk.audioPath)) {
+        const partialPath = chunk.audioPath.replace(/\.mp3$/, ".partial.mp3");
+        await execAsync(
+            `ffmpeg -ss ${chunk.start} -t ${CHUNK_SECONDS + CHUNK_OVERLAP_SECONDS} -i "${sourcePath}" -c copy -y "${partialPath}"`
+        );
+        fs.renameSync(partialPath, chunk.audioPath);
+    }
+
+    const transcript = await withRetries(
+        () => requestTranscription(chunk.audioPath),
+        signal
+    );
+    fs.writeFileSync(chunk.transcriptPath, JSON.stringify(transcript, null, 2));
+}
+
+// Join chunk transcripts into one, shifting segments by their chunk's offset.
+// Where chunks overlap, the earlier chunk's segments win.
+export function stitchChunks(chunks: AudioChunk[], duration: number): Transcript {
+    const segments: TranscriptSegment[] = [];
+    let language: string | undefined;
+    let lastEnd = 0;
+
+    for (const chunk of chunks) {
+        const transcript: Transcript = JSON.parse(fs.readFileSync(chunk.transcriptPath, "utf-8"));
+        language ??= transcript.language;
+
+        for (const segment of transcript.segments) {
+            const start = segment.start + chunk.start;
+            // Allow a little jitter between the two chunks' timings
+            if (start >= chunk.end || start < lastEnd - 0.25) continue;
+            const end = segment.end + chunk.start;
+            segments.push({ start, end, text: segment.text });
+            lastEnd = end;
+        }
+    }
+
+    return {
+        text: segments.map((segment) => segment.text).join(" "),
+        language,
+        duration,
+        segments,
+    };
+}
+
+// Why transcription can't run with the current settings, or null if it's ready
+export function getTranscriptionConfigError(): string | null {
+    const { transcription } = readSettings();
+    return transcription.backend === "api"
+        ? getAIConfigError("transcription")
+        : getLocalTranscriptionError(transcription);
+}
+
+// Transcribe audio with the configured backend and save the transcript. With
+// the API backend, audio too large for a single upload is split into
+// overlapping chunks that are transcribed a few at a time; finished chunks are
+// kept until the whole transcript is saved, so a failed run only redoes the
+// chunks that are missing.
+export async function transcribeAudio(
+    audioPath: string,
+    transcriptPath: string,
+    {
+        signal,
+        onChunk,
+    }: {
+        signal?: AbortSignal;
+        onChunk?: (completed: number, total: number) => void;
+    } = {}
+): Promise<Transcript> {
+    const { transcription } = readSettings();
+    let transcript: Transcript;
+
+    if (transcription.backend !== "api") {
+        transcript = await transcribeLocally(audioPath, transcription, signal);
+    } else if (fs.statSync(audioPath).size <= MAX_UPLOAD_BYTES) {
+        transcript = await withRetries(() => requestTranscription(audioPath), signal);
+    } else {
+        const chunksDir = getChunksDir(audioPath);
+        fs.mkdirSync(chunksDir, { recursive: true });
+
+        const duration = await getMediaDuration(audioPath);
+        // ffprobe prints N/A for some streams; without a length there is
+        // nothing to split, and an empty transcript would be cached
+        if (!Number.isFinite(duration) || duration <= 0) {
+            throw new Error(`Could not read the audio duration of ${path.basename(audioPath)}`);
+        }
+        const chunks = planChunks(duration, chunksDir);
+        let completed = chunks.filter((chunk) => fs.existsSync(chunk.transcriptPath)).length;
+        onChunk?.(completed, chunks.length);
+
+        await runWithConcurrency(chunks, MAX_PARALLEL_CHUNKS, async (chunk) => {
+            if (fs.existsSync(chunk.transcriptPath)) return;
+            await transcribeChunk(audioPath, chunk, signal);
+            onChunk?.(++completed, chunks.length);
+        });
+
+        transcript = stitchChunks(chunks, duration);
+    }
+
+    // Save transcript to file
+    fs.writeFileSync(transcriptPath, JSON.stringify(transcript, null, 2));
+    fs.rmSync(getChunksDir(audioPath), { recursive: true, force: true });
+
+    return transcript;
+}
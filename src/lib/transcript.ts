@@ -0,0 +1,38 @@
+export interface TranscriptSegment {
+    // Seconds from the start of the video
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface Transcript {
+    text: string;
+    language?: string;
+    duration?: number;
+    segments: TranscriptSegment[];
+}
+
+// Index of the segment playing at `time`, or -1 when between/outside segments
+export function findSegmentIndex(segments: TranscriptSegment[], time: number): number {
+    let low = 0;
+    let high = segments.length - 1;
+    while (low <= high) {
+        const mid = Math.floor((low + high) / 2);
+        if (time < segments[mid].start) {
+            high = mid - 1;
+        } else if (time >= segments[mid].end) {
+            low = mid + 1;
+        } else {
+            return mid;
+        }
+    }
+    return -1;
+}
+
+// Segments that start within a time range, e.g. a chapter
+export function sliceTranscript(
+    segments: TranscriptSegment[],
+    range: { start: number; end: number }
+): TranscriptSegment[] {
+    return segments.filter((segment) => segment.start >= range.start && segment.start < range.end);
+}
@@ -0,0 +1,23 @@
+export interface Chapter {
+    title: string;
+    // Seconds from the start of the video
+    start: number;
+    // Start of the next chapter, or the end of the video; 0 for the last
+    // chapter when YouTube didn't report the video's length
+    end: number;
+}
+
+// What YouTube tells us about a video, cached next to it when downloaded
+export interface VideoMetadata {
+    videoId: string;
+    title: string;
+    channel: string;
+    // Seconds
+    duration: number;
+    description: string;
+    thumbnailUrl: string | null;
+    // As YouTube displays it, e.g. "Mar 3, 2024"
+    publishDate: string | null;
+    // Creator-defined chapters; empty when the video has none
+    chapters: Chapter[];
+}
@@ -0,0 +1,31 @@
+// Registry of mounted <video> elements by video id, so inline content such
+// as timestamps can find and control the player they refer to
+const players = new Map<string, Set<HTMLVideoElement>>();
+
+export function registerVideoPlayer(videoId: string, video: HTMLVideoElement): () => void {
+    const registered = players.get(videoId) || new Set();
+    registered.add(video);
+    players.set(videoId, registered);
+
+    return () => {
+        registered.delete(video);
+        if (registered.size === 0) {
+            players.delete(videoId);
+        }
+    };
+}
+
+export function getVideoPlayer(videoId: string): HTMLVideoElement | null {
+    const registered = players.get(videoId);
+    return registered ? registered.values().next().value || null : null;
+}
+
+// Seek the player for `videoId` and bring it into view; false if none is mounted
+export function seekVideo(videoId: string, time: number): boolean {
+    const video = getVideoPlayer(videoId);
+    if (!video) return false;
+
+    video.currentTime = time;
+    video.scrollIntoView({ behavior: "smooth", block: "center" });
+    return true;
+}
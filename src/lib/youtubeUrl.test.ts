@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { getYouTubePlaylistId, isValidVideoId, parseYouTubeUrl } from "./youtubeUrl";
+
+const ID = "dQw4w9WgXcQ";
+
+describe("parseYouTubeUrl", () => {
+    it.each([
+        `https://www.youtube.com/watch?v=${ID}`,
+        `https://m.youtube.com/watch?feature=share&v=${ID}`,
+        `https://music.youtube.com/watch?v=${ID}`,
+        `https://youtu.be/${ID}`,
+        `youtu.be/${ID}`,
+        `https://www.youtube.com/embed/${ID}`,
+        `https://www.youtube-nocookie.com/embed/${ID}`,
+        `https://www.youtube.com/shorts/${ID}`,
+        `https://www.youtube.com/live/${ID}?feature=share`,
+        `https://www.youtube.com/v/${ID}`,
+        `  https://youtu.be/${ID}  `,
+    ])("finds the video id in %s", (url) => {
+        expect(parseYouTubeUrl(url)).toEqual({ videoId: ID, start: 0, playlistId: null });
+    });
+
+    it.each([
+        "",
+        "not a url",
+        `https://vimeo.com/${ID}`,
+        `https://notyoutube.com/watch?v=${ID}`,
+        "https://www.youtube.com/watch?v=short",
+        "https://www.youtube.com/channel/UC123",
+        "https://www.youtube.com/playlist?list=PL123",
+    ])("rejects %j", (url) => {
+        expect(parseYouTubeUrl(url)).toBeNull();
+    });
+
+    it.each([
+        [`https://youtu.be/${ID}?t=90`, 90],
+        [`https://www.youtube.com/watch?v=${ID}&t=90s`, 90],
+        [`https://www.youtube.com/watch?v=${ID}&t=1m30s`, 90],
+        [`https://www.youtube.com/watch?v=${ID}&t=1h2m3s`, 3723],
+        [`https://www.youtube.com/embed/${ID}?start=42`, 42],
+        [`https://www.youtube.com/watch?v=${ID}#t=2m`, 120],
+        [`https://www.youtube.com/watch?v=${ID}&t=soon`, 0],
+    ])("reads the start offset of %s", (url, start) => {
+        expect(parseYouTubeUrl(url)?.start).toBe(start);
+    });
+
+    it("keeps the playlist a video was opened from", () => {
+        expect(parseYouTubeUrl(`https://www.youtube.com/watch?v=${ID}&list=PLabc_123-x`)?.playlistId).toBe(
+            "PLabc_123-x"
+        );
+    });
+});
+
+describe("getYouTubePlaylistId", () => {
+    it("reads list= from playlist pages and watch links", () => {
+        expect(getYouTubePlaylistId("https://www.youtube.com/playlist?list=PLabc")).toBe("PLabc");
+        expect(getYouTubePlaylistId(`https://youtu.be/${ID}?list=PLabc`)).toBe("PLabc");
+    });
+
+    it("ignores other hosts and malformed ids", () => {
+        expect(getYouTubePlaylistId("https://example.com/playlist?list=PLabc")).toBeNull();
+        expect(getYouTubePlaylistId("https://www.youtube.com/playlist?list=PL%20abc")).toBeNull();
+    });
+});
+
+describe("isValidVideoId", () => {
+    it("accepts YouTube ids and local uploads", () => {
+        expect(isValidVideoId(ID)).toBe(true);
+        expect(isValidVideoId("local-0123456789abcdef")).toBe(true);
+    });
+
+    it("rejects path segments and non-strings", () => {
+        expect(isValidVideoId("../notes")).toBe(false);
+        expect(isValidVideoId("")).toBe(false);
+        expect(isValidVideoId(42)).toBe(false);
+    });
+});
@@ -0,0 +1,105 @@
+// Parse the many shapes of YouTube links: watch pages on any subdomain,
+// youtu.be short links, embeds (including youtube-nocookie), Shorts and live
+export interface YouTubeUrl {
+    videoId: string;
+    // Seconds to start playback at, from t= or start=
+    start: number;
+    // Playlist the link was opened from, from list=
+    playlistId: string | null;
+}
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const PLAYLIST_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+// Any id the app keys videos by: YouTube ids and local-<hash> uploads
+const STORED_VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const YOUTUBE_HOSTS = ["youtube.com", "youtube-nocookie.com"];
+
+// Path prefixes followed by the video id, e.g. /shorts/<id>
+const ID_PATH_PREFIXES = ["embed", "shorts", "live", "v", "e"];
+
+export function isYouTubeVideoId(value: string): boolean {
+    return VIDEO_ID_PATTERN.test(value);
+}
+
+// Safe to use in file paths under public/videos and .vnotes
+export function isValidVideoId(value: unknown): value is string {
+    return typeof value === "string" && STORED_VIDEO_ID_PATTERN.test(value);
+}
+
+// "90", "90s", "1m30s" or "1h2m3s" to seconds; 0 when unparseable
+function parseOffset(value: string | null): number {
+    if (!value) return 0;
+    if (/^\d+$/.test(value)) return Number(value);
+    const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+    if (!match) return 0;
+    const [, hours = "0", minutes = "0", seconds = "0"] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+function isYouTubeHost(hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    return YOUTUBE_HOSTS.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+function toUrl(input: string): URL | null {
+    const text = input.trim();
+    if (!text) return null;
+    try {
+        // Links pasted without a scheme, e.g. youtu.be/<id>
+        return new URL(/^[a-z]+:\/\//i.test(text) ? text : `https://${text}`);
+    } catch {
+        return null;
+    }
+}
+
+function getPlaylistParam(url: URL): string | null {
+    const list = url.searchParams.get("list");
+    return list && PLAYLIST_ID_PATTERN.test(list) ? list : null;
+}
+
+export function parseYouTubeUrl(input: string): YouTubeUrl | null {
+    const url = toUrl(input);
+    if (!url) return null;
+
+    const segments = url.pathname.split("/").filter(Boolean);
+    let videoId: string | null = null;
+    if (url.hostname.toLowerCase() === "youtu.be") {
+        videoId = segments[0] ?? null;
+    } else if (isYouTubeHost(url.hostname)) {
+        if (segments[0] === "watch") {
+            videoId = url.searchParams.get("v");
+        } else if (ID_PATH_PREFIXES.includes(segments[0])) {
+            videoId = segments[1] ?? null;
+        }
+    }
+    if (!videoId || !isYouTubeVideoId(videoId)) {
+        return null;
+    }
+
+    // Offsets also appear in the fragment, e.g. #t=1m30s
+    const fragment = new URLSearchParams(url.hash.slice(1));
+    const start = parseOffset(
+        url.searchParams.get("t") ?? url.searchParams.get("start") ?? fragment.get("t")
+    );
+
+    return { videoId, start, playlistId: getPlaylistParam(url) };
+}
+
+export function getYouTubeVideoId(url: string): string | null {
+    return parseYouTubeUrl(url)?.videoId ?? null;
+}
+
+// Playlist id of a /playlist?list= page, or of a video opened from a playlist
+export function getYouTubePlaylistId(input: string): string | null {
+    const url = toUrl(input);
+    if (!url) return null;
+    if (url.hostname.toLowerCase() !== "youtu.be" && !isYouTubeHost(url.hostname)) {
+        return null;
+    }
+    return getPlaylistParam(url);
+}
+
+export function isYouTubePlaylistId(value: string): boolean {
+    return PLAYLIST_ID_PATTERN.test(value);
+}